@@ -0,0 +1,257 @@
+// Scripted stand-in for the Python agent, for offline development and end-to-end tests.
+//
+//   npm run mock:agent      # starts it on MOCK_AGENT_PORT (default 8765)
+//   npm run dev:mock        # the UI, pointed at the mock
+//
+// Endpoints (matching what the Next.js routes and transports expect):
+//   POST /chat          start a run; replays a recorded scenario to the user's connections
+//   POST /chat/cancel   stop a run's replay
+//   POST /chat/execute-query  run an edited query against the recorded results
+//   POST /chat/results  next page of a result sent by reference ({ result_id, cursor, limit })
+//   GET  /chat/events   Server-Sent Events stream (?user_id=&last_seq=)
+//   WS   /ws            WebSocket stream (?user_id=&last_seq=&token=)
+//
+// Scenarios live in mock/scenarios/*.json. The first one whose `match` keywords appear
+// in the message is replayed, otherwise "insight"; MOCK_AGENT_SCENARIO forces one.
+// Frames are stamped with run_id and a per-session seq, so resume/replay works too.
+// A query_result with a "synthetic:*" result_handle and no data gets generated rows:
+// the first page inline, the rest through /chat/results.
+import { createServer } from 'node:http';
+import { readdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.MOCK_AGENT_PORT || 8765);
+const DEFAULT_SCENARIO = 'insight';
+// Multiplies every recorded delay; 0 replays instantly (useful in tests)
+const SPEED = Number(process.env.MOCK_AGENT_DELAY_FACTOR ?? 1);
+
+const scenariosDir = join(dirname(fileURLToPath(import.meta.url)), 'scenarios');
+const scenarios = readdirSync(scenariosDir)
+  .filter(file => file.endsWith('.json'))
+  .map(file => JSON.parse(readFileSync(join(scenariosDir, file), 'utf8')));
+
+const pickScenario = (message) => {
+  const forced = process.env.MOCK_AGENT_SCENARIO;
+  if (forced) return scenarios.find(s => s.name === forced);
+  const text = String(message || '').toLowerCase();
+  return scenarios.find(s => s.match.some(keyword => new RegExp(`\\b${keyword}\\b`).test(text)))
+    ?? scenarios.find(s => s.name === DEFAULT_SCENARIO);
+};
+
+// --- Sessions: one per user, shared by all of the user's connections ---
+
+const sessions = new Map(); // userId -> { seq, frames, clients: Set<(data: string) => void>, runs: Map<runId, timers[]> }
+let anonymousSessionCount = 0;
+
+const getSession = (userId) => {
+  if (!sessions.has(userId)) {
+    sessions.set(userId, { seq: 0, frames: [], clients: new Set(), runs: new Map() });
+  }
+  return sessions.get(userId);
+};
+
+// Identity from the signed token the UI sends (not verified: this is a mock)
+const userIdFromToken = (token) => {
+  try {
+    return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8')).sub;
+  } catch {
+    return undefined;
+  }
+};
+
+const resolveUserId = (url, headers) => {
+  const bearer = headers.authorization?.replace(/^Bearer /, '');
+  const token = url.searchParams.get('token') || bearer;
+  return (token && userIdFromToken(token)) || url.searchParams.get('user_id') || `mock_user_${++anonymousSessionCount}`;
+};
+
+const broadcast = (userId, frame) => {
+  const session = getSession(userId);
+  const stamped = { ...frame, seq: ++session.seq };
+  session.frames.push(stamped);
+  const data = JSON.stringify(stamped);
+  session.clients.forEach(send => send(data));
+};
+
+// Registers a connection: greets it, then replays the frames it missed
+const attachClient = (userId, lastSeqParam, send) => {
+  const session = getSession(userId);
+  const lastSeq = lastSeqParam === null ? null : Number(lastSeqParam);
+  const resumed = lastSeq !== null && Number.isFinite(lastSeq);
+  send(JSON.stringify({ type: 'connection_established', user_id: userId, resumed }));
+  if (resumed) {
+    session.frames.filter(frame => frame.seq > lastSeq).forEach(frame => send(JSON.stringify(frame)));
+  }
+  session.clients.add(send);
+  console.log(`[mock-agent] ${userId} connected (${session.clients.size} connection(s))${resumed ? `, resuming after seq ${lastSeq}` : ''}`);
+  return () => session.clients.delete(send);
+};
+
+// --- Large results, sent by reference ---
+
+const FIRST_PAGE_SIZE = 500;
+const CAMPAIGNS = ['Brand Search', 'Generic Search', 'Display Remarketing', 'Shopping', 'YouTube Awareness'];
+
+// Deterministic rows, so every page of a result is stable across requests
+const syntheticRows = {
+  daily_metrics: (index) => {
+    const impressions = 1000 + (index * 7919) % 9000;
+    const clicks = Math.round(impressions * (0.02 + (index % 13) / 1000));
+    return {
+      day: new Date(Date.UTC(2024, 0, 1) + Math.floor(index / CAMPAIGNS.length) * 86400000).toISOString().slice(0, 10),
+      campaign: CAMPAIGNS[index % CAMPAIGNS.length],
+      impressions,
+      clicks,
+      spend: Math.round(clicks * (0.4 + (index % 7) / 10) * 100) / 100,
+    };
+  },
+};
+
+// result handle id -> total rows, for every synthetic result in the scenarios
+const syntheticTotals = new Map(scenarios.flatMap(scenario => scenario.events
+  .map(({ frame }) => frame.result_handle)
+  .filter(handle => handle?.id.startsWith('synthetic:'))
+  .map(handle => [handle.id, handle.total_rows])));
+
+const readResultPage = (resultId, cursor, limit) => {
+  const generate = syntheticRows[String(resultId).replace(/^synthetic:/, '')];
+  const total = syntheticTotals.get(resultId);
+  if (!generate || total === undefined) return null;
+  const start = Number(cursor) || 0;
+  const end = Math.min(start + limit, total);
+  const rows = Array.from({ length: Math.max(end - start, 0) }, (_, i) => generate(start + i));
+  return { rows, next_cursor: end < total ? String(end) : null };
+};
+
+// Fills in the first page of a synthetic result before the frame is sent
+const withFirstPage = (frame) => {
+  if (frame.type !== 'query_result' || !frame.result_handle || frame.data) return frame;
+  const page = readResultPage(frame.result_handle.id, 0, FIRST_PAGE_SIZE);
+  if (!page) return frame;
+  return { ...frame, data: page.rows, result_handle: { ...frame.result_handle, next_cursor: page.next_cursor } };
+};
+
+const startRun = (userId, runId, scenario) => {
+  const session = getSession(userId);
+  const timers = [];
+  let elapsed = 0;
+  for (const { delayMs, frame } of scenario.events) {
+    elapsed += delayMs * SPEED;
+    timers.push(setTimeout(() => broadcast(userId, { ...withFirstPage(frame), run_id: runId }), elapsed));
+  }
+  timers.push(setTimeout(() => session.runs.delete(runId), elapsed));
+  session.runs.set(runId, timers);
+};
+
+const cancelRun = (userId, runId) => {
+  const session = getSession(userId);
+  const timers = session.runs.get(runId);
+  if (!timers) return false;
+  timers.forEach(clearTimeout);
+  session.runs.delete(runId);
+  return true;
+};
+
+// --- Query executor ---
+
+const normalizeQuery = (query) => String(query || '').replace(/\s+/g, ' ').trim();
+
+// Every query_result recorded in the scenarios
+const recordedResults = scenarios.flatMap(scenario => scenario.events
+  .map(({ frame }) => frame)
+  .filter(frame => frame.type === 'query_result' && Array.isArray(frame.data)));
+
+// Finds the recorded result for the query, or failing that for the objective it was edited from,
+// and honours a LIMIT so edits have a visible effect
+const executeQuery = (query, objective) => {
+  const normalized = normalizeQuery(query);
+  const recorded = recordedResults.find(result => normalizeQuery(result.query) === normalized)
+    || recordedResults.find(result => result.objective === objective);
+  if (!recorded) return { error: 'The mock agent has no recorded result for this query.' };
+  const limit = normalized.match(/\bLIMIT\s+(\d+)\s*$/i);
+  return { data: limit ? recorded.data.slice(0, Number(limit[1])) : recorded.data };
+};
+
+// --- HTTP ---
+
+const readJson = (request) => new Promise((resolve, reject) => {
+  let body = '';
+  request.on('data', chunk => { body += chunk; });
+  request.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (error) {
+      reject(error);
+    }
+  });
+});
+
+const sendJson = (response, status, payload) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  try {
+    if (request.method === 'POST' && url.pathname === '/chat') {
+      const { message, user_id: userId, run_id: runId } = await readJson(request);
+      if (!userId || !runId) return sendJson(response, 400, { detail: 'user_id and run_id are required' });
+      const scenario = pickScenario(message);
+      if (!scenario) return sendJson(response, 500, { detail: `Unknown scenario "${process.env.MOCK_AGENT_SCENARIO}"` });
+      console.log(`[mock-agent] ${userId} run ${runId}: "${message}" -> scenario "${scenario.name}"`);
+      startRun(userId, runId, scenario);
+      return sendJson(response, 200, scenario.ack);
+    }
+
+    if (request.method === 'POST' && url.pathname === '/chat/cancel') {
+      const { user_id: userId, run_id: runId } = await readJson(request);
+      console.log(`[mock-agent] ${userId} cancelled run ${runId}`);
+      return sendJson(response, 200, { cancelled: cancelRun(userId, runId) });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/chat/execute-query') {
+      const { user_id: userId, query, objective } = await readJson(request);
+      if (!query) return sendJson(response, 400, { detail: 'query is required' });
+      console.log(`[mock-agent] ${userId} executed an edited query for "${objective}"`);
+      return sendJson(response, 200, executeQuery(query, objective));
+    }
+
+    if (request.method === 'POST' && url.pathname === '/chat/results') {
+      const { result_id: resultId, cursor, limit } = await readJson(request);
+      const page = readResultPage(resultId, cursor, Number(limit) || FIRST_PAGE_SIZE);
+      if (!page) return sendJson(response, 404, { detail: `Unknown result "${resultId}"` });
+      return sendJson(response, 200, page);
+    }
+
+    if (request.method === 'GET' && url.pathname === '/chat/events') {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      const userId = resolveUserId(url, request.headers);
+      const detach = attachClient(userId, url.searchParams.get('last_seq'), data => response.write(`data: ${data}\n\n`));
+      request.on('close', detach);
+      return;
+    }
+
+    sendJson(response, 404, { detail: 'Not found' });
+  } catch (error) {
+    console.error('[mock-agent] Request failed:', error);
+    sendJson(response, 500, { detail: String(error) });
+  }
+});
+
+// --- WebSocket ---
+
+const wss = new WebSocketServer({ server, path: '/ws' });
+wss.on('connection', (socket, request) => {
+  const url = new URL(request.url, `http://localhost:${PORT}`);
+  const userId = resolveUserId(url, request.headers);
+  const detach = attachClient(userId, url.searchParams.get('last_seq'), data => socket.send(data));
+  socket.on('close', detach);
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-agent] Listening on http://localhost:${PORT} with scenarios: ${scenarios.map(s => s.name).join(', ')}`);
+  console.log(`[mock-agent] AGENT_API_URL=http://localhost:${PORT}/chat NEXT_PUBLIC_WEBSOCKET_URL=ws://localhost:${PORT}/ws`);
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthProvider } from '@/lib/auth';
+import { createSessionToken, SESSION_COOKIE, sessionCookieOptions } from '@/lib/auth/session';
+import { errorResponse, toErrorResponse } from '@/lib/agentProxy';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { username, password } = body ?? {};
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return errorResponse('bad_request', 'Missing username or password in request body', 400);
+    }
+
+    const provider = getAuthProvider();
+    const user = await provider.authenticate({ username: username.trim(), password });
+    if (!user) {
+      console.warn(`Failed ${provider.id} login for username: ${username}`);
+      return errorResponse('unauthorized', 'Invalid username or password.', 401);
+    }
+
+    console.log(`User ${user.id} signed in with the ${provider.id} provider`);
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, await createSessionToken(user), sessionCookieOptions);
+    return response;
+
+  } catch (error) {
+    console.error('Error in /api/auth/login:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/auth/session';
+import { errorResponse } from '@/lib/agentProxy';
+
+// The signed-in user, for the UI
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return errorResponse('unauthorized', 'Not signed in.', 401);
+  }
+  return NextResponse.json({ user });
+}
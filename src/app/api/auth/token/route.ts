@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { errorResponse } from '@/lib/agentProxy';
+
+export const dynamic = 'force-dynamic';
+
+// Short-lived token the browser passes to the agent's WebSocket, which it can't reach with our cookie
+export async function GET(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (!user) {
+    return errorResponse('unauthorized', 'Not signed in.', 401);
+  }
+  return NextResponse.json({ token: await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS) });
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/agentProxy';
+import { conversationStoreForRequest } from '@/lib/conversations/fileStore';
+import { ConversationRecord } from '@/lib/conversations/types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const failed = (action: string, error: unknown) => {
+  console.error(`Error in /api/conversations (${action}):`, error);
+  return errorResponse('internal_error', `Failed to ${action} conversation`, 500, true);
+};
+
+const unauthorized = () => errorResponse('unauthorized', 'Not signed in', 401);
+// Also the answer for another user's conversation, so ids of others' conversations can't be probed
+const notFound = () => errorResponse('not_found', 'Conversation not found', 404);
+
+// Checks the fields the store and the conversation list rely on (sortByRecent compares updatedAt)
+const isConversationRecord = (value: unknown, id: string): value is ConversationRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const conversation = value as Record<string, unknown>;
+  return conversation.id === id &&
+    typeof conversation.title === 'string' &&
+    typeof conversation.createdAt === 'string' &&
+    typeof conversation.updatedAt === 'string' &&
+    Array.isArray(conversation.messages) &&
+    typeof conversation.runs === 'object' && conversation.runs !== null && !Array.isArray(conversation.runs);
+};
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const store = await conversationStoreForRequest(request);
+    if (!store) return unauthorized();
+    const conversation = await store.get(id);
+    if (!conversation) return notFound();
+    return NextResponse.json(conversation);
+  } catch (error) {
+    return failed('load', error);
+  }
+}
+
+// Create or replace one of the user's conversations
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const store = await conversationStoreForRequest(request);
+    if (!store) return unauthorized();
+    const conversation: unknown = await request.json().catch(() => null);
+    if (!isConversationRecord(conversation, id)) {
+      return errorResponse('bad_request', 'Invalid conversation payload', 400);
+    }
+    if (!await store.save(conversation)) return notFound();
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return failed('save', error);
+  }
+}
+
+// Rename a conversation
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const store = await conversationStoreForRequest(request);
+    if (!store) return unauthorized();
+    const { title } = await request.json().catch(() => ({}));
+    if (typeof title !== 'string' || !title.trim()) {
+      return errorResponse('bad_request', 'Missing title in request body', 400);
+    }
+    if (!await store.rename(id, title.trim())) return notFound();
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return failed('rename', error);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params;
+    const store = await conversationStoreForRequest(request);
+    if (!store) return unauthorized();
+    if (!await store.remove(id)) return notFound();
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return failed('delete', error);
+  }
+}
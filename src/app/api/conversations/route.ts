@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/agentProxy';
+import { conversationStoreForRequest } from '@/lib/conversations/fileStore';
+
+// List the signed-in user's saved conversations (summaries only, most recent first)
+export async function GET(request: NextRequest) {
+  try {
+    const store = await conversationStoreForRequest(request);
+    if (!store) {
+      return errorResponse('unauthorized', 'Not signed in', 401);
+    }
+    return NextResponse.json(await store.list());
+  } catch (error) {
+    console.error('Error in GET /api/conversations:', error);
+    return errorResponse('internal_error', 'Failed to list conversations', 500, true);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, postToAgent, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { readJsonBody } from '@/lib/requestGuards';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Get the signed-in user and the runId of the workflow to stop
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const userId = user.id;
+    const parsed = await readJsonBody(request);
+    if ('response' in parsed) return parsed.response;
+    if (typeof parsed.body !== 'object' || parsed.body === null) {
+      return errorResponse('bad_request', 'Request body must be a JSON object', 400);
+    }
+    const { runId } = parsed.body as { runId?: unknown };
+
+    if (typeof runId !== 'string' || !runId) {
+      return errorResponse('bad_request', 'runId must be a non-empty string', 400);
+    }
+
+    // 2. Resolve the agent's cancel endpoint (defaults to <AGENT_API_URL>/cancel)
+    const agentApiUrl = process.env.AGENT_API_URL;
+    const agentCancelUrl = process.env.AGENT_CANCEL_API_URL || (agentApiUrl ? `${agentApiUrl.replace(/\/$/, '')}/cancel` : undefined);
+    if (!agentCancelUrl) {
+      console.error('Neither AGENT_CANCEL_API_URL nor AGENT_API_URL environment variable is set.');
+      return errorResponse('not_configured', 'Agent cancel URL is not configured on the server.', 500);
+    }
+
+    // 3. Forward the cancel request to the Chatbot Agent backend (cancelling twice is harmless, so retries are safe)
+    console.log(`Forwarding cancel request for userId: ${userId}, runId: ${runId} to ${agentCancelUrl}`);
+    const agentResponse = await postToAgent(
+      agentCancelUrl,
+      { user_id: userId, run_id: runId },
+      { authToken: await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS) }
+    );
+
+    const agentData = await agentResponse.json().catch(() => ({}));
+    return NextResponse.json({ cancelled: true, ...agentData });
+
+  } catch (error) {
+    console.error('Error in /api/frontend/chat/cancel:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -1,67 +1,86 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, postToAgent, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { countAttachmentRows, enforceChatRateLimits, MAX_CONTEXT_ROWS, readJsonBody } from '@/lib/requestGuards';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Get the message and userId from the incoming frontend request
-    const body = await request.json();
-    const { message, userId } = body;
+    // 1. The user is the signed-in one; a userId in the body is never trusted
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const userId = user.id;
+
+    // 2. Throttle per user and per IP before doing any work
+    const rateLimited = await enforceChatRateLimits(request, userId);
+    if (rateLimited) return rateLimited;
+
+    // 3. Get the message, runId and optional context attachments from the incoming frontend request
+    const parsed = await readJsonBody(request);
+    if ('response' in parsed) return parsed.response;
+    if (typeof parsed.body !== 'object' || parsed.body === null) {
+      return errorResponse('bad_request', 'Request body must be a JSON object', 400);
+    }
+    const { message, runId, attachments = [] } = parsed.body as { message?: unknown; runId?: unknown; attachments?: unknown };
 
-    if (!message || !userId) {
-      return NextResponse.json(
-        { error: 'Missing message or userId in request body' },
-        { status: 400 }
+    if (typeof message !== 'string' || typeof runId !== 'string') {
+      return errorResponse('bad_request', 'message and runId must be strings', 400);
+    }
+    if (!Array.isArray(attachments)) {
+      return errorResponse('bad_request', 'attachments must be an array', 400);
+    }
+
+    const contextRows = countAttachmentRows(attachments);
+    if (contextRows > MAX_CONTEXT_ROWS) {
+      return errorResponse(
+        'payload_too_large',
+        `Too many staged rows (${contextRows}). Attach at most ${MAX_CONTEXT_ROWS} rows per message.`,
+        413
       );
     }
 
-    // 2. Get the Agent API URL from environment variables
+    // A message may consist of attachments only
+    if ((!message && attachments.length === 0) || !runId) {
+      return errorResponse('bad_request', 'Missing message or runId in request body', 400);
+    }
+
+    // 4. Get the Agent API URL from environment variables
     const agentApiUrl = process.env.AGENT_API_URL;
     if (!agentApiUrl) {
       console.error('AGENT_API_URL environment variable is not set.');
-      return NextResponse.json(
-        { error: 'Agent API URL is not configured on the server.' },
-        { status: 500 }
-      );
+      return errorResponse('not_configured', 'Agent API URL is not configured on the server.', 500);
     }
 
-    // 3. Forward the request to the Chatbot Agent backend
-    console.log(`Forwarding chat request for userId: ${userId} to ${agentApiUrl}`);
-    const agentResponse = await fetch(agentApiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      // Ensure the payload matches what the Python agent expects (user_id)
-      body: JSON.stringify({ message: message, user_id: userId }), 
-    });
+    // 5. Forward the request to the Chatbot Agent backend
+    console.log(`Forwarding chat request for userId: ${userId}, runId: ${runId} with ${attachments.length} attachment(s) to ${agentApiUrl}`);
+    // Ensure the payload matches what the Python agent expects (user_id).
+    // The agent echoes run_id on every WebSocket frame of this workflow.
+    // Attachments travel as structured JSON next to the message, never inside it.
+    // The run ID doubles as idempotency key, so a retried request never starts the workflow twice.
+    const agentResponse = await postToAgent(
+      agentApiUrl,
+      { message: message || '', user_id: userId, run_id: runId, attachments: attachments },
+      { idempotencyKey: runId, authToken: await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS) }
+    );
 
-    // 4. Handle the response from the agent
-    if (!agentResponse.ok) {
-      const errorText = await agentResponse.text();
-      console.error(`Error from agent API: ${agentResponse.status} ${errorText}`);
-      return NextResponse.json(
-        { error: `Failed to get response from agent: ${errorText}` },
-        { status: agentResponse.status }
-      );
+    // 6. Handle the response from the agent
+    // The agent has taken the run by now, so an unreadable acknowledgement must not invite a retry
+    const agentData = await agentResponse.json().catch(() => undefined);
+    if (agentData === undefined) {
+      console.error(`Agent acknowledged runId: ${runId} with a body that is not JSON`);
+      return errorResponse('agent_unavailable', 'The agent accepted the request but sent an unreadable reply.', 502);
     }
-
-    const agentData = await agentResponse.json();
     console.log(`Received response from agent for userId: ${userId}`, agentData);
 
-    // 5. Return the agent's response back to the frontend client
+    // 7. Return the agent's response back to the frontend client
     // The agent returns a simple object like { response: "..." }
     return NextResponse.json(agentData);
 
   } catch (error) {
     console.error('Error in /api/frontend/chat:', error);
-    let errorMessage = 'Internal Server Error';
-    if (error instanceof Error) {
-      errorMessage = error.message;
-    }
-    return NextResponse.json(
-      { error: 'An unexpected error occurred', details: errorMessage },
-      { status: 500 }
-    );
+    return toErrorResponse(error);
   }
 }
 
-// Remove the GET handler since we confirmed the build is working without it 
\ No newline at end of file
+// Remove the GET handler since we confirmed the build is working without it 
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { buildAgentEventsUrl, readSseEvents } from '@/lib/agentEvents';
+
+export const dynamic = 'force-dynamic';
+
+// Hold the request open until events arrive, but answer before typical proxy timeouts
+const POLL_TIMEOUT_MS = 25000;
+// Once the first event arrives, wait at most this long for the rest of the burst before answering,
+// so a steady stream (e.g. token deltas) is still answered in batches
+const BATCH_WINDOW_MS = 250;
+const MAX_BATCH_EVENTS = 500;
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Resolve the signed-in user's event stream, carrying over last_seq so the session resumes
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const agentEventsUrl = buildAgentEventsUrl(user.id, request.nextUrl.searchParams);
+    if (!agentEventsUrl) {
+      console.error('Neither AGENT_EVENTS_URL nor AGENT_API_URL environment variable is set.');
+      return errorResponse('not_configured', 'Agent events URL is not configured on the server.', 500);
+    }
+
+    // 2. Read the agent's event stream until a batch of events is collected or the poll times out
+    const controller = new AbortController();
+    request.signal.addEventListener('abort', () => controller.abort());
+    const deadline = setTimeout(() => controller.abort(), POLL_TIMEOUT_MS);
+    let batchTimer: ReturnType<typeof setTimeout> | undefined;
+    const events: string[] = [];
+
+    try {
+      const agentResponse = await fetch(agentEventsUrl, {
+        headers: {
+          Accept: 'text/event-stream',
+          Authorization: `Bearer ${await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS)}`,
+        },
+        signal: controller.signal,
+        cache: 'no-store',
+      });
+
+      if (!agentResponse.ok || !agentResponse.body) {
+        const errorText = await agentResponse.text();
+        console.error(`Error from agent events API: ${agentResponse.status} ${errorText}`);
+        // An OK response without a body is as useless as a 5xx
+        const isAgentDown = agentResponse.ok || agentResponse.status >= 500;
+        return errorResponse(
+          isAgentDown ? 'agent_unavailable' : 'agent_rejected',
+          `Failed to open agent event stream: ${errorText}`,
+          isAgentDown ? 502 : agentResponse.status,
+          isAgentDown
+        );
+      }
+
+      await readSseEvents(agentResponse.body, data => {
+        events.push(data);
+        if (events.length >= MAX_BATCH_EVENTS) {
+          controller.abort();
+        } else if (!batchTimer) {
+          batchTimer = setTimeout(() => controller.abort(), BATCH_WINDOW_MS);
+        }
+      });
+    } catch (error) {
+      // Aborting is how a poll ends; anything else is a real failure
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      clearTimeout(deadline);
+      clearTimeout(batchTimer);
+    }
+
+    // 3. Return the batch; the client polls again with the latest sequence number
+    return NextResponse.json({ events });
+
+  } catch (error) {
+    console.error('Error in /api/frontend/events/poll:', error);
+    return toErrorResponse(error);
+  }
+}
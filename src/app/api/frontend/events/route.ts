@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { errorResponse, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { buildAgentEventsUrl } from '@/lib/agentEvents';
+
+// Never cache or prerender a live event stream
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Resolve the signed-in user's event stream, carrying over last_seq so the session resumes
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const agentEventsUrl = buildAgentEventsUrl(user.id, request.nextUrl.searchParams);
+    if (!agentEventsUrl) {
+      console.error('Neither AGENT_EVENTS_URL nor AGENT_API_URL environment variable is set.');
+      return errorResponse('not_configured', 'Agent events URL is not configured on the server.', 500);
+    }
+
+    // 2. Open the upstream stream; it is closed when the browser disconnects
+    console.log(`Proxying agent event stream from ${agentEventsUrl}`);
+    const agentResponse = await fetch(agentEventsUrl, {
+      headers: {
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS)}`,
+      },
+      signal: request.signal,
+      cache: 'no-store',
+    });
+
+    if (!agentResponse.ok || !agentResponse.body) {
+      const errorText = await agentResponse.text();
+      console.error(`Error from agent events API: ${agentResponse.status} ${errorText}`);
+      // An OK response without a body is as useless as a 5xx
+      const isAgentDown = agentResponse.ok || agentResponse.status >= 500;
+      return errorResponse(
+        isAgentDown ? 'agent_unavailable' : 'agent_rejected',
+        `Failed to open agent event stream: ${errorText}`,
+        isAgentDown ? 502 : agentResponse.status,
+        isAgentDown
+      );
+    }
+
+    // 3. Pass the SSE frames through untouched
+    return new Response(agentResponse.body, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // Stop nginx-style proxies from buffering the stream
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in /api/frontend/events:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, postToAgent, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { enforceChatRateLimits, readJsonBody } from '@/lib/requestGuards';
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Get the signed-in user
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const userId = user.id;
+
+    // 2. Re-executed queries hit the database, so they share the chat rate limits
+    const rateLimited = await enforceChatRateLimits(request, userId);
+    if (rateLimited) return rateLimited;
+
+    // 3. Get the edited query and the run/table it came from
+    const parsed = await readJsonBody(request);
+    if ('response' in parsed) return parsed.response;
+    if (typeof parsed.body !== 'object' || parsed.body === null) {
+      return errorResponse('bad_request', 'Request body must be a JSON object', 400);
+    }
+    const { query, objective, platform, runId, executionId } = parsed.body as {
+      query?: unknown; objective?: unknown; platform?: unknown; runId?: unknown; executionId?: unknown;
+    };
+
+    if (typeof query !== 'string' || !query.trim() || typeof executionId !== 'string') {
+      return errorResponse('bad_request', 'Missing query or executionId in request body', 400);
+    }
+
+    // 4. Resolve the agent's query executor (defaults to <AGENT_API_URL>/execute-query)
+    const agentApiUrl = process.env.AGENT_API_URL;
+    const agentExecuteUrl = process.env.AGENT_EXECUTE_QUERY_URL || (agentApiUrl ? `${agentApiUrl.replace(/\/$/, '')}/execute-query` : undefined);
+    if (!agentExecuteUrl) {
+      console.error('Neither AGENT_EXECUTE_QUERY_URL nor AGENT_API_URL environment variable is set.');
+      return errorResponse('not_configured', 'Agent query executor URL is not configured on the server.', 500);
+    }
+
+    // 5. Forward the query to the agent's executor
+    // The execution ID is the idempotency key, so a retried request never runs the query twice.
+    console.log(`Forwarding edited query for userId: ${userId}, runId: ${runId} to ${agentExecuteUrl}`);
+    const agentResponse = await postToAgent(
+      agentExecuteUrl,
+      { user_id: userId, run_id: runId, query, objective, platform },
+      { idempotencyKey: executionId, authToken: await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS) }
+    );
+
+    // 6. The executor answers { data: rows } or { error: "..." } for a query that failed to run.
+    // Large results come by reference, like query_result frames: the first page plus a result_handle.
+    const agentData = await agentResponse.json().catch(() => ({}));
+    return NextResponse.json({
+      data: Array.isArray(agentData.data) ? agentData.data : [],
+      ...(typeof agentData.error === 'string' && agentData.error ? { error: agentData.error } : {}),
+      ...(agentData.result_handle ? { result_handle: agentData.result_handle } : {}),
+    });
+
+  } catch (error) {
+    console.error('Error in /api/frontend/execute-query:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, postToAgent, toErrorResponse } from '@/lib/agentProxy';
+import { AGENT_TOKEN_TTL_SECONDS, createSessionToken, getSessionUser } from '@/lib/auth/session';
+import { readIntEnv } from '@/lib/env';
+
+// Rows per page; big enough to fill the virtualized table a few times over
+const RESULTS_PAGE_SIZE = readIntEnv('RESULTS_PAGE_SIZE', 500);
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    // 1. Get the signed-in user; the agent only hands out results of the user's own runs
+    const user = await getSessionUser(request);
+    if (!user) {
+      return errorResponse('unauthorized', 'Your session has expired. Please sign in again.', 401);
+    }
+    const userId = user.id;
+
+    // 2. Get the result handle and the cursor of the page to load
+    const { id: resultId } = await params;
+    const cursor = request.nextUrl.searchParams.get('cursor');
+    if (!cursor) {
+      return errorResponse('bad_request', 'Missing cursor query parameter', 400);
+    }
+
+    // 3. Resolve the agent's results endpoint (defaults to <AGENT_API_URL>/results)
+    const agentApiUrl = process.env.AGENT_API_URL;
+    const agentResultsUrl = process.env.AGENT_RESULTS_URL || (agentApiUrl ? `${agentApiUrl.replace(/\/$/, '')}/results` : undefined);
+    if (!agentResultsUrl) {
+      console.error('Neither AGENT_RESULTS_URL nor AGENT_API_URL environment variable is set.');
+      return errorResponse('not_configured', 'Agent results URL is not configured on the server.', 500);
+    }
+
+    // 4. Ask the agent for the page (reading a page twice is harmless, so retries are safe)
+    const agentResponse = await postToAgent(
+      agentResultsUrl,
+      { user_id: userId, result_id: resultId, cursor, limit: RESULTS_PAGE_SIZE },
+      { authToken: await createSessionToken(user, AGENT_TOKEN_TTL_SECONDS) }
+    );
+
+    // 5. The agent answers { rows, next_cursor }; next_cursor is absent or null on the last page
+    const agentData = await agentResponse.json().catch(() => ({}));
+    if (!Array.isArray(agentData.rows)) {
+      return errorResponse('agent_unavailable', 'The agent returned a malformed result page.', 502, true);
+    }
+    return NextResponse.json({
+      rows: agentData.rows,
+      ...(typeof agentData.next_cursor === 'string' && agentData.next_cursor ? { nextCursor: agentData.next_cursor } : {}),
+    });
+
+  } catch (error) {
+    console.error('Error in /api/frontend/results/[id]:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from 'lucide-react';
+import { signIn } from '@/lib/auth/client';
+
+function LoginForm() {
+  const searchParams = useSearchParams();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await signIn(username, password);
+      if ('error' in result) {
+        setError(result.error.message);
+        return;
+      }
+      // Only follow same-site paths back after signing in
+      const next = searchParams.get('next');
+      window.location.assign(next && next.startsWith('/') && !next.startsWith('//') ? next : '/');
+    } catch (e) {
+      console.error('Sign-in failed:', e);
+      setError('Could not reach the server. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>Sign in to Insight Assistant</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            placeholder="Username"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoFocus
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <Button type="submit" className="w-full" disabled={isSubmitting || !username || !password}>
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            Sign in
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <main className="flex h-screen items-center justify-center p-4 bg-background text-foreground">
+      {/* useSearchParams needs a Suspense boundary to be prerendered */}
+      <Suspense>
+        <LoginForm />
+      </Suspense>
+    </main>
+  );
+}
@@ -4,47 +4,66 @@ import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { useChat, ChatMessage } from '@/hooks/useChat'; // Removed QueryResult import from here
-import { ReadyState } from 'react-use-websocket'; // Import ReadyState as a value
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useChat, ChatAttachment } from '@/hooks/useChat'; // Removed QueryResult import from here
+import { useConversations } from '@/hooks/useConversations';
+import { useAuth } from '@/hooks/useAuth';
 import ReactMarkdown from 'react-markdown'; // To render markdown content
 import remarkGfm from 'remark-gfm'; // Support GitHub Flavored Markdown (tables, etc.)
 import rehypeRaw from 'rehype-raw'; // Import rehype-raw
-import { Loader2 } from 'lucide-react'; // Loading spinner icon
-// Import Shadcn Accordion components
-import {
-  Accordion,
-  AccordionContent,
-  AccordionItem,
-  AccordionTrigger,
-} from "@/components/ui/accordion"
-
+import { FileDown, Loader2, LogOut, Square, StickyNote } from 'lucide-react'; // Trace download, loading spinner, sign-out, stop and note icons
 // Placeholder for the component that will display tables/graphs
 import DataExplorer from '@/components/DataExplorer';
+import RunTimeline from '@/components/RunTimeline';
+import ConversationSidebar from '@/components/ConversationSidebar';
+import AttachmentChips from '@/components/AttachmentChips';
+import ChatMessageList from '@/components/ChatMessageList';
+import { generateAttachmentId } from '@/lib/chat/attachments';
 
 export default function Home() {
   // Get currentStatus, isProcessing, and graphSuggestions list from useChat now
-  const { messages, queryResults, sendMessage, readyState, currentStatus, isProcessing, graphSuggestions } = useChat();
+  const {
+    messages, queryResults, sendMessage, cancelRun, executeQuery, loadMoreRows, setDerivedColumns, readyState, currentStatus, isProcessing, graphSuggestions,
+    activeRunId, viewedRunId, viewedRun, selectRun, conversation, loadConversation, startNewConversation, downloadSessionTrace,
+  } = useChat();
+  const { user, signOut } = useAuth();
+  // The signed-in user's saved conversations for the history sidebar (autosaves the current one)
+  const {
+    conversations, activeConversationId, openConversation, renameConversation, deleteConversation, newConversation,
+  } = useConversations(conversation, loadConversation, startNewConversation, user?.id);
   const [inputValue, setInputValue] = useState('');
-  const [pendingContext, setPendingContext] = useState<{ display: string; backend: string } | null>(null);
+  // Context staged from the Data Explorer or typed as a note, sent with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<ChatAttachment[]>([]);
+  const [noteValue, setNoteValue] = useState('');
+  const [isNoteOpen, setIsNoteOpen] = useState(false);
   const chatHistoryRef = useRef<HTMLDivElement>(null);
 
-  const handleSetPendingContext = (context: { display: string; backend: string }) => {
-    setPendingContext(context);
-    console.log("Context staged: Display=", context.display);
+  // Data Explorer turn selection: an earlier turn is shown read-only, without loading placeholders
+  const isViewingLatestRun = viewedRunId === activeRunId;
+  const viewedQuestion = messages.find(m => m.role === 'user' && m.runId === viewedRunId)?.content;
+
+  const handleAttach = (attachment: ChatAttachment) => {
+    setPendingAttachments(prev => [...prev, attachment]);
+    console.log("Context staged:", attachment.kind);
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setPendingAttachments(prev => prev.filter(a => a.id !== id));
+  };
+
+  const handleAddNote = () => {
+    if (!noteValue.trim()) return;
+    handleAttach({ id: generateAttachmentId(), kind: 'text', text: noteValue.trim() });
+    setNoteValue('');
+    setIsNoteOpen(false);
   };
 
   const handleSend = () => {
-    if (!inputValue.trim() && !pendingContext) return;
+    if (!inputValue.trim() && pendingAttachments.length === 0) return;
 
-    let messageToSend = inputValue;
-    if (pendingContext) {
-      messageToSend = `---DISPLAY_CONTEXT START---${pendingContext.display}---DISPLAY_CONTEXT END------BACKEND_CONTEXT START---${pendingContext.backend}---BACKEND_CONTEXT END------QUERY START---${inputValue}`;
-      console.log("Constructed messageToSend:", messageToSend);
-    }
-    
-    sendMessage(messageToSend);
+    sendMessage(inputValue, pendingAttachments);
     setInputValue('');
-    setPendingContext(null);
+    setPendingAttachments([]);
   };
 
   const handleKeyPress = (event: React.KeyboardEvent<HTMLInputElement>) => {
@@ -61,125 +80,36 @@ export default function Home() {
     }
   }, [messages]);
 
-  // Helper to render message content (handling markdown and optional sections)
-  const renderMessageContent = (msg: ChatMessage) => {
-    // Handle Milestones with <details>
-    if (msg.role === 'milestone') {
-        return (
-            <details className='space-y-1'>
-                <summary className='font-medium text-sm cursor-pointer'>{msg.content}</summary>
-                {/* Render Reasoning First */}
-                {msg.reasoning && (
-                    <div className='mt-2 text-xs p-2 border rounded bg-muted/30'>
-                        <div className="prose dark:prose-invert prose-xs max-w-none">
-                            <ReactMarkdown 
-                              remarkPlugins={[remarkGfm]}
-                              rehypePlugins={[rehypeRaw]}
-                            >
-                                {msg.reasoning}
-                            </ReactMarkdown>
-                         </div>
-                    </div>
-                )}
-                {/* Render Generated Queries Array */}
-                {msg.generatedQueries && msg.generatedQueries.length > 0 && (
-                     <div className='mt-2 space-y-2'>
-                        <h4 className="text-xs font-semibold text-muted-foreground">Generated Queries:</h4>
-                        {msg.generatedQueries.map((q, index) => {
-                            console.log(`Rendering Query ${index}:`, q);
-                            return (
-                                <div key={index} className='text-xs p-2 border rounded bg-muted/30'>
-                                    <p className="font-medium mb-1">{q.objective || `Query ${index + 1}`}</p>
-                                    <div className="prose dark:prose-invert prose-xs max-w-none">
-                                        <ReactMarkdown 
-                                          remarkPlugins={[remarkGfm]}
-                                          rehypePlugins={[rehypeRaw]}
-                                        >
-                                            {`\\\`\\\`\\\`cypher\\n${q.query}\\n\\\`\\\`\\\``}
-                                        </ReactMarkdown>
-                                    </div>
-                                </div>
-                            );
-                        })}
-                    </div>
-                )}
-            </details>
-        );
-    }
-    
-    // Render regular user/assistant/system messages
-    // OR render structured report sections using Accordion
-    if (msg.role === 'assistant' && msg.reportSections && msg.reportSections.length > 0) {
-      // Render Accordion for structured report
-      // Determine default open section (e.g., Recommendations)
-      const defaultOpenValue = msg.reportSections.find(s => s.title?.includes('Recommendations'))?.title || msg.reportSections[0]?.title;
-      
-      return (
-         <Accordion type="single" collapsible className="w-full" defaultValue={defaultOpenValue}>
-           {msg.reportSections.map((section, index) => (
-             <AccordionItem value={section.title || `section-${index}`} key={section.title || index}>
-               <AccordionTrigger className="text-base font-semibold hover:no-underline">
-                 {section.title || `Section ${index + 1}`}
-               </AccordionTrigger>
-               <AccordionContent>
-                 <div className="prose dark:prose-invert prose-sm max-w-none break-words">
-                   <ReactMarkdown 
-                     remarkPlugins={[remarkGfm]}
-                     rehypePlugins={[rehypeRaw]}
-                   >
-                     {section.content}
-                   </ReactMarkdown>
-                 </div>
-                 {/* Optionally render reasoning if it exists and is associated per section (not current setup) */}
-               </AccordionContent>
-             </AccordionItem>
-           ))}
-         </Accordion>
-      );
-    }
-    
-    // Handle Context Info messages
-    if (msg.role === 'context_info') {
-        return (
-            <div className="prose dark:prose-invert prose-sm max-w-none break-words">
-                <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
-                    {msg.content} 
-                </ReactMarkdown>
-            </div>
-        );
-    }
-    
-    // Handle User Messages with potential context
-    if (msg.role === 'user') {
-        return (
-            <div className="prose dark:prose-invert prose-sm max-w-none break-words">
-                <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
-                    {msg.content} 
-                </ReactMarkdown>
-            </div>
-        );
-    }
-    
-    // Fallback for Assistant (non-report), System messages
-    console.log("Assistant Message Content for ID " + msg.id + ":", msg.content); 
-    const normalizedContent = msg.content.replace(/\r\n/g, '\n'); // Normalize newlines
-    return (
-      <div className="prose dark:prose-invert prose-sm max-w-none break-words"> 
-        <ReactMarkdown 
-          remarkPlugins={[remarkGfm]}
-          rehypePlugins={[rehypeRaw]} 
-        >
-          {normalizedContent}
-        </ReactMarkdown>
-      </div>
-    );
-  };
-
   return (
     <main className="flex h-screen flex-col p-4 gap-4 bg-background text-foreground">
     
        
        <div className="flex flex-1 flex-row items-stretch gap-4 overflow-hidden"> 
+          {/* Sidebar: Past Conversations */}
+          <div className="w-64 flex-shrink-0 flex flex-col gap-2">
+            <div className="flex items-center justify-between gap-2 px-1">
+              <p className="text-sm text-muted-foreground truncate">{user ? `Signed in as ${user.name}` : '\u00a0'}</p>
+              <div className="flex flex-shrink-0">
+                {/* Attach this file to bug reports; open it on /replay to see what the user saw */}
+                <Button variant="ghost" size="icon" onClick={downloadSessionTrace} aria-label="Download session trace" title="Download session trace">
+                  <FileDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={signOut} aria-label="Sign out" title="Sign out">
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <ConversationSidebar
+              conversations={conversations}
+              activeConversationId={activeConversationId}
+              onOpen={openConversation}
+              onNew={newConversation}
+              onRename={renameConversation}
+              onDelete={deleteConversation}
+              disabled={isProcessing}
+            />
+          </div>
+
           {/* Left Pane: Chat */}
           <div className="flex-1 flex flex-col min-w-0"> 
             <Card className="flex-1 flex flex-col overflow-hidden"> 
@@ -189,34 +119,7 @@ export default function Home() {
               <CardContent className="flex-1 flex flex-col justify-between overflow-hidden p-4">
                 {/* Chat History Area */}
                 <div ref={chatHistoryRef} className="flex-1 overflow-y-auto mb-4 space-y-4 pr-2">
-                  {messages.map((msg) => (
-                    <div key={msg.id} className={`flex flex-col ${ (msg.role === 'user' || msg.role === 'context_info') ? 'items-end' : 'items-start' }`}> 
-                        <div 
-                          className={`rounded-lg shadow-sm ${ 
-                            msg.role === 'user' 
-                              ? 'max-w-[85%] bg-primary text-primary-foreground p-3'
-                              : msg.role === 'assistant' 
-                              ? (msg.reportSections && msg.reportSections.length > 0
-                                  ? 'w-full bg-muted text-muted-foreground p-3'
-                                  : 'max-w-[85%] bg-muted text-muted-foreground p-3 assistant-bubble'
-                                )
-                              : msg.role === 'milestone' 
-                              ? 'w-full bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border border-blue-300 dark:border-blue-700 p-3'
-                              : msg.role === 'context_info'
-                              ? 'max-w-[85%] bg-blue-600 dark:bg-blue-700 text-blue-50 mb-1 px-2 py-1 text-xs'
-                              : 'max-w-[85%] bg-destructive/10 text-destructive border border-destructive/30 p-3'
-                          }`}
-                        >
-                          {renderMessageContent(msg)}
-                      </div>
-                      {/* --- EDIT: Exclude context_info from role label --- */}
-                      {(msg.role !== 'user' && msg.role !== 'context_info') && (
-                         <p className="text-xs text-muted-foreground mt-1 capitalize">
-                             {msg.role.replace('_', ' ')}
-                         </p>
-                      )}
-                    </div>
-                  ))}
+                  <ChatMessageList messages={messages} viewedRunId={viewedRunId} isViewingLatestRun={isViewingLatestRun} onSelectRun={selectRun} />
                 </div>
                  {/* Live Status Indicator Area */} 
                  {currentStatus && (
@@ -233,40 +136,84 @@ export default function Home() {
                          </div>
                     </div>
                  )} 
+                {/* Staged attachments */}
+                <AttachmentChips attachments={pendingAttachments} onRemove={handleRemoveAttachment} className="flex-shrink-0 pt-2 border-t" />
                 {/* Chat Input Area */}
                 <div className="flex gap-2 flex-shrink-0 pt-4 border-t"> 
+                  <Popover open={isNoteOpen} onOpenChange={setIsNoteOpen}>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="icon" aria-label="Attach a note" disabled={currentStatus !== null}>
+                        <StickyNote className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="space-y-2">
+                      <p className="text-sm font-medium">Attach a note</p>
+                      <Input
+                        placeholder="Extra context for the assistant..."
+                        value={noteValue}
+                        onChange={(e) => setNoteValue(e.target.value)}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleAddNote(); }}
+                        autoFocus
+                      />
+                      <Button size="sm" onClick={handleAddNote} disabled={!noteValue.trim()}>
+                        Attach
+                      </Button>
+                    </PopoverContent>
+                  </Popover>
                   <Input 
                     type="text" 
-                    placeholder={readyState === ReadyState.OPEN ? "Ask about insights..." : "Connecting..."}
+                    placeholder={readyState === 'open' ? "Ask about insights..." : "Connecting..."}
                     value={inputValue}
                     onChange={(e) => setInputValue(e.target.value)}
                     onKeyPress={handleKeyPress}
-                    disabled={readyState !== ReadyState.OPEN || currentStatus !== null} // Disable input while processing
+                    disabled={readyState !== 'open' || currentStatus !== null} // Disable input while processing
                     className="flex-1"
                   />
-                  <Button 
-                    onClick={handleSend} 
-                    disabled={readyState !== ReadyState.OPEN || !inputValue.trim() || currentStatus !== null} // Disable send while processing
-                  >
-                    Send
-                  </Button>
+                  {isProcessing ? (
+                    <Button variant="destructive" onClick={cancelRun}>
+                      <Square className="h-4 w-4" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button 
+                      onClick={handleSend} 
+                      disabled={readyState !== 'open' || (!inputValue.trim() && pendingAttachments.length === 0) || currentStatus !== null} // Disable send while processing
+                    >
+                      Send
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
           </div>
 
           {/* Right Pane: Data Explorer */}
-          <div className="flex-[1.5] flex flex-col min-w-0"> 
+          <div className="flex-[1.5] flex flex-col min-w-0 gap-4"> 
+            <RunTimeline run={viewedRun} />
             <Card className="flex-1 flex flex-col overflow-hidden"> 
-              <CardHeader className="flex-shrink-0">
-                <CardTitle>Data Explorer</CardTitle>
+              <CardHeader className="flex-shrink-0 flex-row items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <CardTitle>Data Explorer</CardTitle>
+                  {!isViewingLatestRun && viewedQuestion && (
+                    <p className="text-sm text-muted-foreground pt-1 truncate">Earlier question: {viewedQuestion}</p>
+                  )}
+                </div>
+                {!isViewingLatestRun && activeRunId && (
+                  <Button variant="outline" size="sm" onClick={() => selectRun(activeRunId)}>
+                    Back to latest
+                  </Button>
+                )}
               </CardHeader>
               <CardContent className="flex-1 overflow-y-auto p-4">
                  <DataExplorer 
+                    key={viewedRunId ?? 'no-run'} // Reset table/graph pagination when switching turns
                     queryResults={queryResults} 
                     graphSuggestions={graphSuggestions} 
-                    isProcessing={isProcessing} 
-                    onSetPendingContext={handleSetPendingContext}
+                    isProcessing={isProcessing && isViewingLatestRun} 
+                    onAttach={handleAttach}
+                    onExecuteQuery={executeQuery}
+                    onLoadMoreRows={loadMoreRows}
+                    onSetDerivedColumns={setDerivedColumns}
                  />
               </CardContent>
             </Card>
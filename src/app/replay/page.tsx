@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useChat } from '@/hooks/useChat';
+import { parseTrace, SessionTrace, TraceEntry } from '@/lib/chat/trace';
+import ChatMessageList from '@/components/ChatMessageList';
+import DataExplorer from '@/components/DataExplorer';
+import RunTimeline from '@/components/RunTimeline';
+
+type HttpEntry = Extract<TraceEntry, { kind: 'request' | 'response' }>;
+
+const REPLAY_SPEEDS = [
+  { label: '1x', value: 1 },
+  { label: '4x', value: 4 },
+  { label: 'Instant', value: Infinity },
+];
+
+// Replays one trace; remounted (fresh chat state) for every run
+function TraceReplay({ trace, speed }: { trace: SessionTrace; speed: number }) {
+  const [requestLog, setRequestLog] = useState<HttpEntry[]>([]);
+  const {
+    messages, queryResults, graphSuggestions, isProcessing, currentStatus, activeRunId, viewedRunId, viewedRun, selectRun,
+  } = useChat({
+    replay: trace,
+    replaySpeed: speed,
+    onReplayEntry: (entry) => {
+      if (entry.kind === 'request' || entry.kind === 'response') setRequestLog(prev => [...prev, entry]);
+    },
+  });
+  const isViewingLatestRun = viewedRunId === activeRunId;
+
+  return (
+    <div className="flex flex-1 flex-row items-stretch gap-4 overflow-hidden">
+      <div className="flex-1 flex flex-col min-w-0 gap-4">
+        <Card className="flex-1 flex flex-col overflow-hidden">
+          <CardHeader className="flex-shrink-0">
+            <CardTitle>Replayed chat</CardTitle>
+            {currentStatus && <p className="text-sm text-muted-foreground pt-1">Status: {currentStatus}</p>}
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto space-y-4 p-4">
+            <ChatMessageList messages={messages} viewedRunId={viewedRunId} isViewingLatestRun={isViewingLatestRun} onSelectRun={selectRun} />
+          </CardContent>
+        </Card>
+        <Card className="h-48 flex flex-col overflow-hidden">
+          <CardHeader className="flex-shrink-0">
+            <CardTitle className="text-base">Requests</CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto p-4 pt-0 space-y-1">
+            {requestLog.length === 0 && <p className="text-sm text-muted-foreground italic">No requests yet.</p>}
+            {requestLog.map((entry, index) => (
+              <details key={index} className="text-xs">
+                <summary className="cursor-pointer font-mono">
+                  +{(entry.at / 1000).toFixed(2)}s {entry.kind === 'request' ? `${entry.method} ${entry.url}` : `${entry.status} ${entry.url}`}
+                </summary>
+                <pre className="whitespace-pre-wrap p-2 bg-muted/30 rounded">{JSON.stringify(entry.body, null, 2)}</pre>
+              </details>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+      <div className="flex-[1.5] flex flex-col min-w-0 gap-4">
+        <RunTimeline run={viewedRun} />
+        <Card className="flex-1 flex flex-col overflow-hidden">
+          <CardHeader className="flex-shrink-0">
+            <CardTitle>Data Explorer</CardTitle>
+          </CardHeader>
+          <CardContent className="flex-1 overflow-y-auto p-4">
+            <DataExplorer
+              key={viewedRunId ?? 'no-run'}
+              queryResults={queryResults}
+              graphSuggestions={graphSuggestions}
+              isProcessing={isProcessing && isViewingLatestRun}
+              onAttach={() => {}} // Nothing to send in a replay
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+export default function ReplayPage() {
+  const [trace, setTrace] = useState<SessionTrace | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [speed, setSpeed] = useState(1);
+  const [replayCount, setReplayCount] = useState(0);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseTrace(JSON.parse(await file.text()));
+      if (!parsed) {
+        setError('This file is not a session trace this version can replay.');
+        return;
+      }
+      setError(null);
+      setTrace(parsed);
+      setReplayCount(count => count + 1);
+    } catch (e) {
+      console.error('Failed to read trace:', e);
+      setError('Could not read the file as JSON.');
+    }
+  };
+
+  return (
+    <main className="flex h-screen flex-col p-4 gap-4 bg-background text-foreground">
+      <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+        <h1 className="text-lg font-semibold mr-4">Session replay</h1>
+        <input type="file" accept="application/json,.json" onChange={(e) => handleFile(e.target.files?.[0])} className="text-sm" />
+        {REPLAY_SPEEDS.map(option => (
+          <Button key={option.label} size="sm" variant={speed === option.value ? 'default' : 'outline'} onClick={() => setSpeed(option.value)}>
+            {option.label}
+          </Button>
+        ))}
+        <Button size="sm" variant="outline" disabled={!trace} onClick={() => setReplayCount(count => count + 1)}>
+          Restart
+        </Button>
+        {trace && (
+          <p className="text-sm text-muted-foreground">
+            Recorded {new Date(trace.startedAt).toLocaleString()} · {trace.entries.length} entries
+          </p>
+        )}
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+      {trace?.truncated && (
+        <p className="text-sm rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 flex-shrink-0">
+          Partial trace: recording stopped at +{(trace.truncated.at / 1000).toFixed(2)}s when the session reached {trace.entries.length} entries.
+          The replay ends there; the {trace.truncated.droppedEntries} later input{trace.truncated.droppedEntries === 1 ? ' was' : 's were'} not recorded.
+        </p>
+      )}
+      {trace ? (
+        <TraceReplay key={`${replayCount}-${speed}`} trace={trace} speed={speed} />
+      ) : (
+        <p className="text-muted-foreground">Choose a trace downloaded from the chat to replay it.</p>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import React from 'react';
+import { ChatAttachment } from '@/lib/chat/types';
+import { describeAttachment } from '@/lib/chat/attachments';
+import { ChartColumn, Rows3, StickyNote, Table2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface AttachmentChipsProps {
+    attachments: ChatAttachment[];
+    onRemove?: (id: string) => void; // Staged attachments can be removed before sending
+    className?: string;
+}
+
+const attachmentIcons: Record<ChatAttachment['kind'], React.ElementType> = {
+    table_rows: Rows3,
+    query_result: Table2,
+    chart: ChartColumn,
+    text: StickyNote,
+};
+
+const AttachmentChips: React.FC<AttachmentChipsProps> = ({ attachments, onRemove, className }) => {
+    if (attachments.length === 0) return null;
+
+    return (
+        <div className={cn("flex flex-wrap gap-1", className)}>
+            {attachments.map((attachment) => {
+                const Icon = attachmentIcons[attachment.kind];
+                return (
+                    <span
+                        key={attachment.id}
+                        title={attachment.kind === 'text' ? attachment.text : undefined}
+                        className="inline-flex items-center gap-1 rounded-full border bg-blue-600 dark:bg-blue-700 text-blue-50 px-2 py-0.5 text-xs"
+                    >
+                        <Icon className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{describeAttachment(attachment)}</span>
+                        {onRemove && (
+                            <button
+                                type="button"
+                                onClick={() => onRemove(attachment.id)}
+                                className="rounded-full hover:bg-blue-500/60"
+                                aria-label="Remove attachment"
+                            >
+                                <X className="h-3 w-3" />
+                            </button>
+                        )}
+                    </span>
+                );
+            })}
+        </div>
+    );
+};
+
+export default AttachmentChips;
@@ -0,0 +1,190 @@
+'use client';
+
+import React from 'react';
+import ReactMarkdown from 'react-markdown'; // To render markdown content
+import remarkGfm from 'remark-gfm'; // Support GitHub Flavored Markdown (tables, etc.)
+import rehypeRaw from 'rehype-raw'; // Import rehype-raw
+import { ChatMessage } from '@/hooks/useChat';
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion"
+import AttachmentChips from '@/components/AttachmentChips';
+import RetryCountdown from '@/components/RetryCountdown';
+
+interface ChatMessageListProps {
+    messages: ChatMessage[];
+    viewedRunId: string | null;
+    isViewingLatestRun: boolean;
+    onSelectRun: (runId: string) => void;
+}
+
+// Helper to render message content (handling markdown and optional sections)
+const renderMessageContent = (msg: ChatMessage) => {
+  // Handle Milestones with <details>
+  if (msg.role === 'milestone') {
+      return (
+          <details className='space-y-1'>
+              <summary className='font-medium text-sm cursor-pointer'>{msg.content}</summary>
+              {/* Render Reasoning First */}
+              {msg.reasoning && (
+                  <div className='mt-2 text-xs p-2 border rounded bg-muted/30'>
+                      <div className="prose dark:prose-invert prose-xs max-w-none">
+                          <ReactMarkdown 
+                            remarkPlugins={[remarkGfm]}
+                            rehypePlugins={[rehypeRaw]}
+                          >
+                              {msg.reasoning}
+                          </ReactMarkdown>
+                       </div>
+                  </div>
+              )}
+              {/* Render Generated Queries Array */}
+              {msg.generatedQueries && msg.generatedQueries.length > 0 && (
+                   <div className='mt-2 space-y-2'>
+                      <h4 className="text-xs font-semibold text-muted-foreground">Generated Queries:</h4>
+                      {msg.generatedQueries.map((q, index) => {
+                          console.log(`Rendering Query ${index}:`, q);
+                          return (
+                              <div key={index} className='text-xs p-2 border rounded bg-muted/30'>
+                                  <p className="font-medium mb-1">{q.objective || `Query ${index + 1}`}</p>
+                                  <div className="prose dark:prose-invert prose-xs max-w-none">
+                                      <ReactMarkdown 
+                                        remarkPlugins={[remarkGfm]}
+                                        rehypePlugins={[rehypeRaw]}
+                                      >
+                                          {`\\\`\\\`\\\`cypher\\n${q.query}\\n\\\`\\\`\\\``}
+                                      </ReactMarkdown>
+                                  </div>
+                              </div>
+                          );
+                      })}
+                  </div>
+              )}
+          </details>
+      );
+  }
+  
+  // Render regular user/assistant/system messages
+  // OR render structured report sections using Accordion
+  if (msg.role === 'assistant' && msg.reportSections && msg.reportSections.length > 0) {
+    // Render Accordion for structured report
+    // Determine default open section (e.g., Recommendations)
+    const defaultOpenValue = msg.reportSections.find(s => s.title?.includes('Recommendations'))?.title || msg.reportSections[0]?.title;
+    
+    return (
+       <Accordion type="single" collapsible className="w-full" defaultValue={defaultOpenValue}>
+         {msg.reportSections.map((section, index) => (
+           <AccordionItem value={section.title || `section-${index}`} key={section.title || index}>
+             <AccordionTrigger className="text-base font-semibold hover:no-underline">
+               {section.title || `Section ${index + 1}`}
+             </AccordionTrigger>
+             <AccordionContent>
+               <div className="prose dark:prose-invert prose-sm max-w-none break-words">
+                 <ReactMarkdown 
+                   remarkPlugins={[remarkGfm]}
+                   rehypePlugins={[rehypeRaw]}
+                 >
+                   {section.content}
+                 </ReactMarkdown>
+               </div>
+               {/* Optionally render reasoning if it exists and is associated per section (not current setup) */}
+             </AccordionContent>
+           </AccordionItem>
+         ))}
+       </Accordion>
+    );
+  }
+  
+  // Handle Context Info messages (conversations saved before attachments were structured)
+  if (msg.role === 'context_info') {
+      return (
+          <div className="prose dark:prose-invert prose-sm max-w-none break-words">
+              <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+                  {msg.content} 
+              </ReactMarkdown>
+          </div>
+      );
+  }
+  
+  // Handle User Messages with potential context
+  if (msg.role === 'user') {
+      return (
+          <div className="prose dark:prose-invert prose-sm max-w-none break-words">
+              <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeRaw]}>
+                  {msg.content} 
+              </ReactMarkdown>
+          </div>
+      );
+  }
+  
+  // Fallback for Assistant (non-report), System messages
+  console.log("Assistant Message Content for ID " + msg.id + ":", msg.content); 
+  const normalizedContent = msg.content.replace(/\r\n/g, '\n'); // Normalize newlines
+  return (
+    <div className="prose dark:prose-invert prose-sm max-w-none break-words"> 
+      <ReactMarkdown 
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeRaw]} 
+      >
+        {normalizedContent}
+      </ReactMarkdown>
+      {msg.retryAt && <RetryCountdown retryAt={msg.retryAt} />}
+      {/* Blinking caret while the answer is still streaming in */}
+      {msg.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current animate-pulse" aria-label="Streaming" />}
+    </div>
+  );
+};
+
+// The chat history, shared by the live chat and the trace replay page
+const ChatMessageList: React.FC<ChatMessageListProps> = ({ messages, viewedRunId, isViewingLatestRun, onSelectRun }) => {
+    return (
+        <>
+          {messages.map((msg) => {
+            // Assistant answers are clickable: they point the Data Explorer at their turn's results
+            const selectableRunId = msg.role === 'assistant' ? msg.runId : undefined;
+            return (
+            <div key={msg.id} className={`flex flex-col ${ (msg.role === 'user' || msg.role === 'context_info') ? 'items-end' : 'items-start' }`}> 
+                <div 
+                  onClick={selectableRunId ? () => onSelectRun(selectableRunId) : undefined}
+                  title={selectableRunId ? 'Show this answer\'s tables and graphs' : undefined}
+                  className={`rounded-lg shadow-sm ${ 
+                    selectableRunId ? 'cursor-pointer hover:ring-1 hover:ring-primary/40' : ''
+                  } ${
+                    selectableRunId && selectableRunId === viewedRunId && !isViewingLatestRun ? 'ring-2 ring-primary/60' : ''
+                  } ${
+                    msg.role === 'user' 
+                      ? 'max-w-[85%] bg-primary text-primary-foreground p-3'
+                      : msg.role === 'assistant' 
+                      ? (msg.reportSections && msg.reportSections.length > 0
+                          ? 'w-full bg-muted text-muted-foreground p-3'
+                          : 'max-w-[85%] bg-muted text-muted-foreground p-3 assistant-bubble'
+                        )
+                      : msg.role === 'milestone' 
+                      ? 'w-full bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 border border-blue-300 dark:border-blue-700 p-3'
+                      : msg.role === 'context_info'
+                      ? 'max-w-[85%] bg-blue-600 dark:bg-blue-700 text-blue-50 mb-1 px-2 py-1 text-xs'
+                      : 'max-w-[85%] bg-destructive/10 text-destructive border border-destructive/30 p-3'
+                  }`}
+                >
+                  {renderMessageContent(msg)}
+              </div>
+              {msg.attachments && (
+                 <AttachmentChips attachments={msg.attachments} className="mt-1 justify-end max-w-[85%]" />
+              )}
+              {/* --- EDIT: Exclude context_info from role label --- */}
+              {(msg.role !== 'user' && msg.role !== 'context_info') && (
+                 <p className="text-xs text-muted-foreground mt-1 capitalize">
+                     {msg.role.replace('_', ' ')}
+                 </p>
+              )}
+            </div>
+            );
+          })}
+        </>
+    );
+};
+
+export default ChatMessageList;
@@ -0,0 +1,123 @@
+'use client';
+
+import React from 'react';
+import { cellText, ColumnFilterValue, ColumnKind, isEmptyFilter } from '@/lib/tableFilters';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ListFilter } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ColumnFilterPopoverProps {
+    column: string;
+    kind: ColumnKind;
+    value: ColumnFilterValue | undefined;
+    onChange: (value: ColumnFilterValue | undefined) => void; // undefined clears the filter
+    categoryCounts?: Map<unknown, number>; // Faceted counts of the column's values
+    range?: [string | number, string | number]; // Smallest and largest value, shown as placeholders
+}
+
+const parseNumber = (text: string) => text.trim() === '' || Number.isNaN(Number(text)) ? undefined : Number(text);
+
+// Filter button in a column header, with an editor for the column's kind
+const ColumnFilterPopover: React.FC<ColumnFilterPopoverProps> = ({ column, kind, value, onChange, categoryCounts, range }) => {
+    const update = (next: ColumnFilterValue) => onChange(isEmptyFilter(next) ? undefined : next);
+
+    const renderEditor = () => {
+        switch (kind) {
+            case 'text':
+                return (
+                    <Input
+                        placeholder="Contains..."
+                        value={value?.kind === 'text' ? value.contains : ''}
+                        onChange={(e) => update({ kind: 'text', contains: e.target.value })}
+                        autoFocus
+                    />
+                );
+            case 'number': {
+                const current = value?.kind === 'number' ? value : { kind: 'number' as const };
+                return (
+                    <div className="flex items-center gap-2">
+                        <Input
+                            type="number"
+                            placeholder={range ? `Min (${range[0]})` : 'Min'}
+                            value={current.min ?? ''}
+                            onChange={(e) => update({ ...current, min: parseNumber(e.target.value) })}
+                            autoFocus
+                        />
+                        <Input
+                            type="number"
+                            placeholder={range ? `Max (${range[1]})` : 'Max'}
+                            value={current.max ?? ''}
+                            onChange={(e) => update({ ...current, max: parseNumber(e.target.value) })}
+                        />
+                    </div>
+                );
+            }
+            case 'date': {
+                const current = value?.kind === 'date' ? value : { kind: 'date' as const };
+                const bounds = range ? { min: String(range[0]).slice(0, 10), max: String(range[1]).slice(0, 10) } : {};
+                return (
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-xs">
+                            <span className="w-8 text-muted-foreground">From</span>
+                            <Input type="date" {...bounds} value={current.from ?? ''} onChange={(e) => update({ ...current, from: e.target.value || undefined })} />
+                        </label>
+                        <label className="flex items-center gap-2 text-xs">
+                            <span className="w-8 text-muted-foreground">To</span>
+                            <Input type="date" {...bounds} value={current.to ?? ''} onChange={(e) => update({ ...current, to: e.target.value || undefined })} />
+                        </label>
+                    </div>
+                );
+            }
+            case 'category': {
+                const selected = value?.kind === 'category' ? value.values : [];
+                const options = [...(categoryCounts ?? new Map<unknown, number>()).entries()]
+                    .map(([option, count]) => ({ label: cellText(option), count }))
+                    .sort((a, b) => b.count - a.count);
+                const toggle = (label: string, checked: boolean) =>
+                    update({ kind: 'category', values: checked ? [...selected, label] : selected.filter(v => v !== label) });
+                return (
+                    <div className="max-h-56 overflow-y-auto space-y-1">
+                        {options.map(option => (
+                            <label key={option.label} className="flex items-center gap-2 text-sm cursor-pointer">
+                                <Checkbox checked={selected.includes(option.label)} onCheckedChange={(checked) => toggle(option.label, !!checked)} />
+                                <span className="flex-1 truncate">{option.label || <em className="text-muted-foreground">(empty)</em>}</span>
+                                <span className="text-xs text-muted-foreground tabular-nums">{option.count}</span>
+                            </label>
+                        ))}
+                    </div>
+                );
+            }
+        }
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn("h-6 w-6", value ? "text-primary" : "text-muted-foreground")}
+                    aria-label={`Filter ${column}`}
+                >
+                    <ListFilter className="h-3.5 w-3.5" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-64 space-y-2">
+                <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium truncate">Filter {column}</p>
+                    {value && (
+                        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange(undefined)}>
+                            Clear
+                        </Button>
+                    )}
+                </div>
+                {renderEditor()}
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default ColumnFilterPopover;
@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { COLUMN_TYPE_LABELS, ColumnType } from '@/lib/columnProfile';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Check, Settings2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ColumnFormatPopoverProps {
+    column: string;
+    inferredType: ColumnType;
+    override: ColumnType | undefined;
+    onChange: (type: ColumnType | undefined) => void; // undefined goes back to the inferred type
+}
+
+// Format button in a column header: shows the inferred type and lets the user pick another
+const ColumnFormatPopover: React.FC<ColumnFormatPopoverProps> = ({ column, inferredType, override, onChange }) => {
+    const renderOption = (label: string, isActive: boolean, onSelect: () => void) => (
+        <Button key={label} variant="ghost" size="sm" className="w-full justify-start h-7 px-2" onClick={onSelect}>
+            <Check className={cn("h-3.5 w-3.5", isActive ? "opacity-100" : "opacity-0")} />
+            {label}
+        </Button>
+    );
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn("h-6 w-6", override ? "text-primary" : "text-muted-foreground")}
+                    aria-label={`Format ${column}`}
+                    title={`Shown as ${COLUMN_TYPE_LABELS[override ?? inferredType]}`}
+                >
+                    <Settings2 className="h-3.5 w-3.5" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-52 space-y-0.5">
+                <p className="text-sm font-medium truncate mb-2">Format {column}</p>
+                {renderOption(`Auto (${COLUMN_TYPE_LABELS[inferredType]})`, !override, () => onChange(undefined))}
+                {(Object.keys(COLUMN_TYPE_LABELS) as ColumnType[]).map(type =>
+                    renderOption(COLUMN_TYPE_LABELS[type], override === type, () => onChange(type))
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default ColumnFormatPopover;
@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { Table as ReactTable } from '@tanstack/react-table';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Columns3, GripVertical, Pin, PinOff } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ColumnManagerPopoverProps {
+    table: ReactTable<Record<string, unknown>>;
+    onReset: () => void; // Back to the result's own column order, all visible, default widths, nothing pinned
+}
+
+// Columns menu: show/hide, drag to reorder and pin columns to the left
+const ColumnManagerPopover: React.FC<ColumnManagerPopoverProps> = ({ table, onReset }) => {
+    const [draggedId, setDraggedId] = useState<string | null>(null);
+    const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+    // getAllLeafColumns() keeps the result's order, so apply the user's order on top
+    const { columnOrder } = table.getState();
+    const managedColumns = table.getAllLeafColumns().filter(column => column.id !== 'select');
+    const position = (id: string) => {
+        const index = columnOrder.indexOf(id);
+        return index === -1 ? columnOrder.length + managedColumns.findIndex(column => column.id === id) : index;
+    };
+    const orderedColumns = [...managedColumns].sort((a, b) => position(a.id) - position(b.id));
+
+    const moveColumn = (id: string, beforeId: string) => {
+        if (id === beforeId) return;
+        const ids = orderedColumns.map(column => column.id).filter(columnId => columnId !== id);
+        ids.splice(ids.indexOf(beforeId), 0, id);
+        table.setColumnOrder(['select', ...ids]);
+    };
+
+    const endDrag = () => {
+        setDraggedId(null);
+        setDropTargetId(null);
+    };
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button variant="outline" size="icon" aria-label="Manage columns" title="Manage columns">
+                    <Columns3 className="h-4 w-4" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-64 p-2">
+                <div className="flex items-center justify-between px-1 mb-1">
+                    <p className="text-sm font-medium">Columns</p>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onReset}>
+                        Reset layout
+                    </Button>
+                </div>
+                <p className="px-1 mb-2 text-xs text-muted-foreground">Drag to reorder. Pinned columns stay on the left while scrolling.</p>
+                <div className="max-h-72 overflow-y-auto space-y-0.5">
+                    {orderedColumns.map(column => {
+                        const isPinned = column.getIsPinned() === 'left';
+                        return (
+                            <div
+                                key={column.id}
+                                draggable
+                                onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedId(column.id); }}
+                                onDragOver={(e) => { if (!draggedId) return; e.preventDefault(); setDropTargetId(column.id); }}
+                                onDrop={(e) => { e.preventDefault(); if (draggedId) moveColumn(draggedId, column.id); endDrag(); }}
+                                onDragEnd={endDrag}
+                                className={cn(
+                                    "flex items-center gap-2 rounded px-1 py-0.5 text-sm",
+                                    draggedId === column.id && "opacity-50",
+                                    dropTargetId === column.id && draggedId !== column.id && "border-t-2 border-primary"
+                                )}
+                            >
+                                <GripVertical className="h-3.5 w-3.5 shrink-0 cursor-grab text-muted-foreground" />
+                                <Checkbox
+                                    checked={column.getIsVisible()}
+                                    onCheckedChange={(value) => column.toggleVisibility(!!value)}
+                                    aria-label={`Show ${column.id}`}
+                                />
+                                <span className="flex-1 truncate">{column.id}</span>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className={cn("h-6 w-6", isPinned ? "text-primary" : "text-muted-foreground")}
+                                    onClick={() => column.pin(isPinned ? false : 'left')}
+                                    aria-label={isPinned ? `Unpin ${column.id}` : `Pin ${column.id}`}
+                                    title={isPinned ? 'Unpin' : 'Pin to the left'}
+                                >
+                                    {isPinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                                </Button>
+                            </div>
+                        );
+                    })}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default ColumnManagerPopover;
@@ -0,0 +1,145 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+    ConditionalFormatKind,
+    ConditionalFormatRule,
+    describeRule,
+    FORMAT_COLORS,
+    FormatColor,
+    RULE_LABELS,
+    THRESHOLD_OPERATORS,
+    ThresholdOperator,
+} from '@/lib/conditionalFormats';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Palette, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ConditionalFormatPopoverProps {
+    column: string;
+    rules: ConditionalFormatRule[];
+    baselineColumns: string[]; // Other numeric columns, for up/down icons
+    onChange: (rules: ConditionalFormatRule[]) => void;
+}
+
+const selectClass = "h-7 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30";
+
+const COLORS = Object.keys(FORMAT_COLORS) as FormatColor[];
+
+// Conditional format button in a numeric column's header: lists the column's rules and adds new ones
+const ConditionalFormatPopover: React.FC<ConditionalFormatPopoverProps> = ({ column, rules, baselineColumns, onChange }) => {
+    const [kind, setKind] = useState<ConditionalFormatKind>('colorScale');
+    const [color, setColor] = useState<FormatColor>('green');
+    const [lowColor, setLowColor] = useState<FormatColor>('red');
+    const [operator, setOperator] = useState<ThresholdOperator>('>');
+    const [threshold, setThreshold] = useState('');
+    const [baseline, setBaseline] = useState('');
+    const [higherIsBetter, setHigherIsBetter] = useState(true);
+
+    const selectedBaseline = baselineColumns.includes(baseline) ? baseline : baselineColumns[0];
+
+    const newRule = (): ConditionalFormatRule | null => {
+        switch (kind) {
+            case 'colorScale': return { kind, lowColor, highColor: color };
+            case 'threshold': {
+                const value = Number(threshold);
+                return threshold.trim() !== '' && Number.isFinite(value) ? { kind, operator, value, color } : null;
+            }
+            case 'dataBar': return { kind, color };
+            case 'deltaIcon': return selectedBaseline ? { kind, baseline: selectedBaseline, higherIsBetter } : null;
+        }
+    };
+    const candidate = newRule();
+
+    const renderColorSelect = (value: FormatColor, onSelect: (color: FormatColor) => void, label: string) => (
+        <select className={selectClass} value={value} onChange={(e) => onSelect(e.target.value as FormatColor)} aria-label={label}>
+            {COLORS.map(option => <option key={option} value={option}>{FORMAT_COLORS[option].label}</option>)}
+        </select>
+    );
+
+    return (
+        <Popover>
+            <PopoverTrigger asChild>
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn("h-6 w-6", rules.length > 0 ? "text-primary" : "text-muted-foreground")}
+                    aria-label={`Conditional formatting for ${column}`}
+                    title={rules.length > 0 ? rules.map(describeRule).join('\n') : 'Conditional formatting'}
+                >
+                    <Palette className="h-3.5 w-3.5" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent align="start" className="w-72 space-y-2 text-xs">
+                <p className="text-sm font-medium truncate">Conditional formatting: {column}</p>
+                {rules.length > 0 ? (
+                    <ul className="space-y-1">
+                        {rules.map((rule, index) => (
+                            <li key={index} className="flex items-center gap-1 rounded border bg-muted/50 px-2 py-1">
+                                <span className="flex-1 truncate">{describeRule(rule)}</span>
+                                <button onClick={() => onChange(rules.filter((_, i) => i !== index))} aria-label={`Remove ${describeRule(rule)}`} className="text-muted-foreground hover:text-foreground">
+                                    <X className="h-3 w-3" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-muted-foreground">No rules yet. Later rules paint over earlier ones.</p>
+                )}
+                <div className="space-y-2 border-t pt-2">
+                    <select className={cn(selectClass, "w-full")} value={kind} onChange={(e) => setKind(e.target.value as ConditionalFormatKind)} aria-label="Rule type">
+                        {(Object.keys(RULE_LABELS) as ConditionalFormatKind[]).map(option => (
+                            <option key={option} value={option} disabled={option === 'deltaIcon' && baselineColumns.length === 0}>{RULE_LABELS[option]}</option>
+                        ))}
+                    </select>
+                    <div className="flex flex-wrap items-center gap-1">
+                        {kind === 'colorScale' && (
+                            <>
+                                {renderColorSelect(lowColor, setLowColor, 'Color of the lowest values')}
+                                <span className="text-muted-foreground">low to high</span>
+                                {renderColorSelect(color, setColor, 'Color of the highest values')}
+                            </>
+                        )}
+                        {kind === 'threshold' && (
+                            <>
+                                <select className={selectClass} value={operator} onChange={(e) => setOperator(e.target.value as ThresholdOperator)} aria-label="Comparison">
+                                    {THRESHOLD_OPERATORS.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                                <Input type="number" placeholder="Value" value={threshold} onChange={(e) => setThreshold(e.target.value)} className="h-7 w-24 text-xs" />
+                                {renderColorSelect(color, setColor, 'Highlight color')}
+                            </>
+                        )}
+                        {kind === 'dataBar' && renderColorSelect(color, setColor, 'Bar color')}
+                        {kind === 'deltaIcon' && (
+                            <>
+                                <span className="text-muted-foreground">vs.</span>
+                                <select className={selectClass} value={selectedBaseline ?? ''} onChange={(e) => setBaseline(e.target.value)} aria-label="Baseline column">
+                                    {baselineColumns.map(option => <option key={option} value={option}>{option}</option>)}
+                                </select>
+                                <select className={selectClass} value={higherIsBetter ? 'higher' : 'lower'} onChange={(e) => setHigherIsBetter(e.target.value === 'higher')} aria-label="Which direction is good">
+                                    <option value="higher">higher is better</option>
+                                    <option value="lower">lower is better</option>
+                                </select>
+                            </>
+                        )}
+                    </div>
+                    {kind === 'threshold' && <p className="text-muted-foreground">Compared with the raw values, shown when hovering a formatted cell.</p>}
+                    <div className="flex items-center gap-2">
+                        <Button size="sm" onClick={() => candidate && onChange([...rules, candidate])} disabled={!candidate}>
+                            Add Rule
+                        </Button>
+                        {rules.length > 0 && (
+                            <Button size="sm" variant="ghost" onClick={() => onChange([])}>
+                                Clear all
+                            </Button>
+                        )}
+                    </div>
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default ConditionalFormatPopover;
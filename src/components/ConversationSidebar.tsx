@@ -0,0 +1,114 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ConversationSummary } from '@/lib/conversations';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Check, MessageSquarePlus, Pencil, Trash2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface ConversationSidebarProps {
+    conversations: ConversationSummary[];
+    activeConversationId: string | null;
+    onOpen: (id: string) => void;
+    onNew: () => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    disabled: boolean; // Switching conversations is blocked while a run is in progress
+}
+
+const formatUpdatedAt = (isoDate: string) => {
+    const date = new Date(isoDate);
+    return date.toDateString() === new Date().toDateString()
+        ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+        : date.toLocaleDateString();
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ conversations, activeConversationId, onOpen, onNew, onRename, onDelete, disabled }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const startEditing = (conversation: ConversationSummary) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftTitle.trim()) {
+            onRename(editingId, draftTitle);
+        }
+        setEditingId(null);
+    };
+
+    const handleDelete = (conversation: ConversationSummary) => {
+        if (window.confirm(`Delete "${conversation.title}"? Its tables and graphs will be lost.`)) {
+            onDelete(conversation.id);
+        }
+    };
+
+    return (
+        <Card className="flex-1 flex flex-col overflow-hidden">
+            <CardHeader className="flex-shrink-0 flex-row items-center justify-between">
+                <CardTitle>History</CardTitle>
+                <Button variant="outline" size="icon" onClick={onNew} disabled={disabled} aria-label="New conversation">
+                    <MessageSquarePlus className="h-4 w-4" />
+                </Button>
+            </CardHeader>
+            <CardContent className="flex-1 overflow-y-auto p-2 space-y-1">
+                {conversations.length === 0 && (
+                    <p className="text-sm text-muted-foreground italic p-2">No saved conversations yet.</p>
+                )}
+                {conversations.map((conversation) => (
+                    <div
+                        key={conversation.id}
+                        className={cn(
+                            "group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm",
+                            conversation.id === activeConversationId ? "bg-muted" : "hover:bg-muted/50"
+                        )}
+                    >
+                        {editingId === conversation.id ? (
+                            <>
+                                <Input
+                                    value={draftTitle}
+                                    onChange={(e) => setDraftTitle(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    className="h-7 text-sm"
+                                    autoFocus
+                                />
+                                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={commitRename} aria-label="Save title">
+                                    <Check className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                                    <X className="h-4 w-4" />
+                                </Button>
+                            </>
+                        ) : (
+                            <>
+                                <button
+                                    className="flex-1 min-w-0 text-left disabled:cursor-not-allowed disabled:opacity-50"
+                                    onClick={() => onOpen(conversation.id)}
+                                    disabled={disabled}
+                                >
+                                    <p className="truncate font-medium">{conversation.title}</p>
+                                    <p className="text-xs text-muted-foreground">{formatUpdatedAt(conversation.updatedAt)}</p>
+                                </button>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100" onClick={() => startEditing(conversation)} aria-label="Rename conversation">
+                                    <Pencil className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button variant="ghost" size="icon" className="h-7 w-7 opacity-0 group-hover:opacity-100" onClick={() => handleDelete(conversation)} disabled={disabled} aria-label="Delete conversation">
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                ))}
+            </CardContent>
+        </Card>
+    );
+};
+
+export default ConversationSidebar;
@@ -1,7 +1,10 @@
 'use client';
 
-import React, { useState, useMemo, useEffect } from 'react';
-import { QueryResult, GraphSuggestion as ChatGraphSuggestion } from '@/hooks/useChat';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import { ChatAttachment, DerivedColumn, QueryResult, QueryRunMode, GraphSuggestion as ChatGraphSuggestion } from '@/hooks/useChat';
+import { generateAttachmentId } from '@/lib/chat/attachments';
+import { PivotChart } from '@/lib/tablePivot';
+import { withDerivedColumns } from '@/lib/derivedColumns';
 import TableViewer from './TableViewer';
 import GraphViewer from './GraphViewer';
 // import VisxBarChart from './VisxBarChart'; // Comment out VisxBarChart for now
@@ -12,7 +15,10 @@ interface DataExplorerProps {
   queryResults: QueryResult[];
   graphSuggestions: ChatGraphSuggestion[];
   isProcessing: boolean;
-  onSetPendingContext: (context: { display: string; backend: string }) => void;
+  onAttach: (attachment: ChatAttachment) => void;
+  onExecuteQuery?: (resultIndex: number, query: string, mode: QueryRunMode) => Promise<string | null>;
+  onLoadMoreRows?: (resultIndex: number) => Promise<string | null>;
+  onSetDerivedColumns?: (resultIndex: number, derivedColumns: DerivedColumn[]) => void;
 }
 
 // Default fallback colors if CSS variables are not found or in SSR
@@ -25,9 +31,10 @@ const defaultPlotlyColors = {
 };
 
 // --- Main Data Explorer Component --- 
-const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggestions, isProcessing, onSetPendingContext }) => {
+const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggestions, isProcessing, onAttach, onExecuteQuery, onLoadMoreRows, onSetDerivedColumns }) => {
   const [currentTableIndex, setCurrentTableIndex] = useState(0);
   const [currentGraphIndex, setCurrentGraphIndex] = useState(0); // This will now index into graphSuggestions
+  const [pivotChart, setPivotChart] = useState<PivotChart | null>(null); // A pivot charted from the Table Viewer, shown instead of the suggestions
 
   const [plotlyThemeColors, setPlotlyThemeColors] = useState({
     fontColor: defaultPlotlyColors.font,
@@ -213,7 +220,62 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggesti
     return plotlyCompatibleSuggestion;
   }, [currentRawGraphSuggestion]);
 
+  // Derived columns can be charted like any other column
+  const graphDataSource = useMemo<QueryResult | undefined>(
+    () => dataSourceForCurrentGraph && { ...dataSourceForCurrentGraph, dataframe: withDerivedColumns(dataSourceForCurrentGraph) },
+    [dataSourceForCurrentGraph]
+  );
+
+  // Stable, since the table's column definitions are rebuilt whenever it changes
+  const handleDerivedColumnsChange = useCallback(
+    (derivedColumns: DerivedColumn[]) => onSetDerivedColumns?.(currentTableIndex, derivedColumns),
+    [onSetDerivedColumns, currentTableIndex]
+  );
+
+  const handleRunEditedQuery = async (query: string, mode: QueryRunMode) => {
+    if (!onExecuteQuery) return null;
+    const error = await onExecuteQuery(currentTableIndex, query, mode);
+    // A new table is appended; show it
+    if (!error && mode === 'add') setCurrentTableIndex(totalTableResults);
+    return error;
+  };
+
+  const handleAttachChart = () => {
+    if (!currentRawGraphSuggestion) return;
+    // Rendered images are large and meaningless to the agent; send the suggestion itself
+    const suggestion: ChatGraphSuggestion = { ...currentRawGraphSuggestion };
+    delete suggestion.image_base64;
+    onAttach({
+      id: generateAttachmentId(),
+      kind: 'chart',
+      title: currentRawGraphSuggestion.title || dataSourceForCurrentGraph?.objective || `Graph ${currentGraphIndex + 1}`,
+      objective: dataSourceForCurrentGraph?.objective,
+      suggestion,
+    });
+  };
+
   const renderGraph = () => {
+    if (pivotChart) {
+      return (
+        <GraphViewer
+          result={{ objective: pivotChart.title, query: '', dataframe: pivotChart.rows }}
+          graphSuggestion={{ type: pivotChart.type, title: pivotChart.title, columns: { x: pivotChart.x, y: pivotChart.y } }}
+          currentIndex={0}
+          totalCount={0}
+          onNext={handleNextGraph}
+          onPrev={handlePrevGraph}
+          isProcessing={false}
+          isInitialState={false}
+          fontColor={plotlyThemeColors.fontColor}
+          mutedFontColor={plotlyThemeColors.mutedFontColor}
+          borderColor={plotlyThemeColors.borderColor}
+          primaryTraceColor={plotlyThemeColors.primaryTraceColor}
+          colorway={plotlyThemeColors.colorway}
+          onClose={() => setPivotChart(null)}
+        />
+      );
+    }
+
     // Use totalGraphSuggestions for initial state check regarding graphs
     if (isInitialState && totalGraphSuggestions === 0) { 
       return (
@@ -230,7 +292,7 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggesti
 
     return (
       <GraphViewer
-        result={dataSourceForCurrentGraph} // Use the dynamically found data source
+        result={graphDataSource} // Use the dynamically found data source
         graphSuggestion={finalGraphSuggestionForViewer}
         currentIndex={currentGraphIndex} // Current index within graphSuggestions
         totalCount={totalGraphSuggestions} // Total number of graph suggestions
@@ -244,6 +306,7 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggesti
         borderColor={plotlyThemeColors.borderColor}
         primaryTraceColor={plotlyThemeColors.primaryTraceColor}
         colorway={plotlyThemeColors.colorway}
+        onAttach={handleAttachChart}
       />
     );
   };
@@ -259,7 +322,11 @@ const DataExplorer: React.FC<DataExplorerProps> = ({ queryResults, graphSuggesti
         onPrev={handlePrevTable}
         isProcessing={isProcessing}
         isInitialState={isInitialState}
-        onSetPendingContext={onSetPendingContext}
+        onAttach={onAttach}
+        onRunEditedQuery={onExecuteQuery ? handleRunEditedQuery : undefined}
+        onLoadMore={onLoadMoreRows ? () => onLoadMoreRows(currentTableIndex) : undefined}
+        onChartPivot={setPivotChart}
+        onDerivedColumnsChange={onSetDerivedColumns ? handleDerivedColumnsChange : undefined}
       />
       {renderGraph()}
     </div>
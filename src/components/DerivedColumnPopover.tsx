@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DerivedColumn, QueryResult } from '@/hooks/useChat';
+import { columnReference, dependentsOf, validateDerivedColumn } from '@/lib/derivedColumns';
+import { evaluateExpression, ExpressionError, FUNCTION_NAMES } from '@/lib/expressions';
+import { cellText } from '@/lib/tableFilters';
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, SquareFunction } from "lucide-react";
+
+interface DerivedColumnPopoverProps {
+    result: QueryResult;
+    sampleRow?: Record<string, unknown>; // First row as shown, for a live preview
+    editing?: DerivedColumn; // Unset when adding a new column
+    onChange: (derivedColumns: DerivedColumn[]) => void;
+}
+
+const EXAMPLES = ['clicks / impressions', "CASE WHEN spend > 100 THEN 'high' ELSE 'low' END", "date_trunc('week', date)"];
+
+// Adds (from the toolbar) or edits (from a derived column's header) a column computed with an expression
+const DerivedColumnPopover: React.FC<DerivedColumnPopoverProps> = ({ result, sampleRow, editing, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [name, setName] = useState(editing?.name ?? '');
+    const [expression, setExpression] = useState(editing?.expression ?? '');
+    const [submitError, setSubmitError] = useState<string | null>(null);
+
+    // Each opening starts from the saved definition
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(editing?.name ?? '');
+        setExpression(editing?.expression ?? '');
+        setSubmitError(null);
+    }, [isOpen, editing]);
+
+    const derivedColumns = result.derivedColumns ?? [];
+    const position = editing ? derivedColumns.findIndex(column => column.name === editing.name) : derivedColumns.length;
+    const referenceable = [...Object.keys(result.dataframe[0] ?? {}), ...derivedColumns.slice(0, position).map(column => column.name)];
+
+    // Live feedback: the parse error, or the value for the first row
+    // (a name is only required on save, so a placeholder stands in until one is typed)
+    const validation = expression.trim() ? validateDerivedColumn({ name: name.trim() || '__preview__', expression }, result, editing?.name) : null;
+    let preview: string | null = null;
+    if (validation && 'expression' in validation && sampleRow) {
+        try {
+            preview = cellText(evaluateExpression(validation.expression, sampleRow));
+        } catch (error) {
+            preview = error instanceof ExpressionError ? error.message : null;
+        }
+    }
+
+    const handleSave = () => {
+        const candidate = { name: name.trim(), expression: expression.trim() };
+        const checked = validateDerivedColumn(candidate, result, editing?.name);
+        if ('error' in checked) {
+            setSubmitError(checked.error);
+            return;
+        }
+        onChange(editing
+            ? derivedColumns.map(column => column.name === editing.name ? candidate : column)
+            : [...derivedColumns, candidate]);
+        setIsOpen(false);
+    };
+
+    const handleRemove = () => {
+        if (!editing) return;
+        const dependents = dependentsOf(editing.name, derivedColumns);
+        if (dependents.length > 0) {
+            setSubmitError(`Can't remove: ${dependents.join(', ')} use${dependents.length === 1 ? 's' : ''} this column.`);
+            return;
+        }
+        onChange(derivedColumns.filter(column => column.name !== editing.name));
+        setIsOpen(false);
+    };
+
+    const insertColumn = (column: string) => setExpression(prev => `${prev}${prev && !prev.endsWith(' ') ? ' ' : ''}${columnReference(column)}`);
+
+    const error = submitError ?? (validation && 'error' in validation ? validation.error : null);
+
+    return (
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+            <PopoverTrigger asChild>
+                {editing ? (
+                    <Button variant="ghost" size="icon" className="h-6 w-6 text-primary" aria-label={`Edit ${editing.name}`} title={`= ${editing.expression}`}>
+                        <SquareFunction className="h-3.5 w-3.5" />
+                    </Button>
+                ) : (
+                    <Button variant="outline" size="sm" title="Add a computed column">
+                        <Plus className="h-4 w-4" />
+                        Column
+                    </Button>
+                )}
+            </PopoverTrigger>
+            <PopoverContent align={editing ? 'start' : 'end'} className="w-96 space-y-2">
+                <p className="text-sm font-medium">{editing ? `Edit ${editing.name}` : 'Add computed column'}</p>
+                <Input placeholder="Name, e.g. ctr" value={name} onChange={(e) => { setName(e.target.value); setSubmitError(null); }} autoFocus />
+                <Input
+                    placeholder={EXAMPLES[0]}
+                    value={expression}
+                    onChange={(e) => { setExpression(e.target.value); setSubmitError(null); }}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                    className="font-mono text-xs"
+                    spellCheck={false}
+                />
+                {error
+                    ? <p className="text-xs text-destructive">{error}</p>
+                    : preview !== null && <p className="text-xs text-muted-foreground truncate">First row: <span className="font-mono">{preview || '(empty)'}</span></p>}
+                <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+                    {referenceable.map(column => (
+                        <button
+                            key={column}
+                            onClick={() => insertColumn(column)}
+                            className="rounded border bg-muted/50 px-1.5 py-0.5 font-mono text-[11px] hover:bg-muted"
+                        >
+                            {column}
+                        </button>
+                    ))}
+                </div>
+                <details className="text-xs text-muted-foreground">
+                    <summary className="cursor-pointer">Syntax</summary>
+                    <p className="mt-1">
+                        + - * / %, comparisons (= != &lt; &lt;= &gt; &gt;=), AND / OR / NOT, CASE WHEN ... THEN ... ELSE ... END.
+                        Text in &apos;quotes&apos;, column names with spaces in `backticks`. Dividing by zero gives an empty value.
+                    </p>
+                    <p className="mt-1">Examples: {EXAMPLES.map(example => <code key={example} className="mr-2 font-mono">{example}</code>)}</p>
+                    <p className="mt-1">Functions: <span className="font-mono">{FUNCTION_NAMES.join(', ')}</span></p>
+                </details>
+                <div className="flex items-center gap-2">
+                    <Button size="sm" onClick={handleSave} disabled={!name.trim() || !expression.trim()}>
+                        {editing ? 'Save' : 'Add Column'}
+                    </Button>
+                    {editing && (
+                        <Button size="sm" variant="ghost" className="text-destructive" onClick={handleRemove}>
+                            Remove
+                        </Button>
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+};
+
+export default DerivedColumnPopover;
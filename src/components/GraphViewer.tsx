@@ -4,11 +4,12 @@ import React, { useMemo } from 'react';
 import { QueryResult } from '@/hooks/useChat';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, ArrowRight } from "lucide-react";
+import { ArrowLeft, ArrowRight, X } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { PlotParams } from 'react-plotly.js';
 import dynamic from 'next/dynamic';
 import Image from 'next/image'; // Import next/image
+import { chooseAxes, ColumnProfile, currencySymbol, profileColumns } from '@/lib/columnProfile';
 
 // Dynamically import Plotly to avoid SSR issues
 const Plot = dynamic(() => import('react-plotly.js'), { ssr: false });
@@ -54,8 +55,35 @@ interface GraphViewerProps {
   borderColor: string;
   primaryTraceColor: string;
   colorway: string[];
+  onAttach?: () => void; // Stages the current chart as context for the next message
+  onClose?: () => void; // Set while showing a chart built in the Table Viewer; goes back to the suggestions
 }
 
+// Axis ticks and hover values follow the column's inferred type (dates on a time axis, money with its symbol, ...)
+const axisFormat = (profile: ColumnProfile | undefined): Partial<Plotly.LayoutAxis> => {
+    switch (profile?.type) {
+        case 'date':
+        case 'datetime':
+            return { type: 'date' };
+        case 'text':
+        case 'boolean':
+        case 'url':
+            return { type: 'category' };
+        case 'percentage':
+            return profile.percentScale === 'ratio'
+                ? { tickformat: '.1%', hoverformat: '.2%' }
+                : { ticksuffix: '%', hoverformat: '.2f' };
+        case 'currency':
+            return { tickprefix: currencySymbol(profile.currency), tickformat: ',.0f', hoverformat: ',.2f' };
+        case 'integer':
+            return { tickformat: ',d', hoverformat: ',d' };
+        case 'decimal':
+            return { hoverformat: ',.2~f' };
+        default:
+            return {};
+    }
+};
+
 const GraphPlaceholderContent: React.FC = () => {
     const graphAreaHeight = "h-[350px]"; 
     return (
@@ -99,7 +127,9 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
     mutedFontColor,
     borderColor,
     primaryTraceColor,
-    colorway
+    colorway,
+    onAttach,
+    onClose
 }) => {
 
     const plotParams = useMemo<PlotParams | null>(() => {
@@ -118,10 +148,15 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
             return null;
         }
 
-        const xCol = columns?.x;
-        const yCol = columns?.y;
-        const nameCol = columns?.names;
-        const valCol = columns?.values;
+        // Suggested columns that aren't in the result fall back to axes picked from the column types
+        const profiles = profileColumns(data);
+        const hasColumn = (column: string | undefined): column is string => !!column && column in profiles;
+        const fallbackAxes = chooseAxes(profiles);
+        const xCol = hasColumn(columns?.x) ? columns.x : fallbackAxes.x;
+        const suggestedY = Array.isArray(columns?.y) ? columns.y.filter(hasColumn) : columns?.y;
+        const yCol = hasColumn(Array.isArray(suggestedY) ? suggestedY[0] : suggestedY) ? suggestedY : fallbackAxes.y;
+        const nameCol = hasColumn(columns?.names) ? columns.names : fallbackAxes.x;
+        const valCol = hasColumn(columns?.values) ? columns.values : fallbackAxes.y;
         const colorCol = columns?.color; // For data-driven coloring by a column
 
         const plotData: Partial<Plotly.PlotData>[] = [];
@@ -133,13 +168,15 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
                 gridcolor: borderColor,
                 zerolinecolor: borderColor,
                 tickfont: { color: mutedFontColor, size: 10 },
+                ...axisFormat(xCol ? profiles[xCol] : undefined),
             },
             yaxis: {
                 title: { text: (Array.isArray(yCol) ? yCol.join(' & ') : yCol) || '', font: { size: 12, color: mutedFontColor } },
                 automargin: true,
                 gridcolor: borderColor,
                 zerolinecolor: borderColor,
-                tickfont: { color: mutedFontColor, size: 10 }
+                tickfont: { color: mutedFontColor, size: 10 },
+                ...axisFormat(profiles[(Array.isArray(yCol) ? yCol[0] : yCol) ?? '']),
             },
             margin: { l: 60, r: 30, t: 50, b: 50 },
             height: 350,
@@ -161,49 +198,56 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
                 case 'bar':
                 case 'line':
                 case 'scatter':
-                    // For simplicity, assuming yCol is string for these basic types here.
-                    // If yCol is an array for multi-trace, this section needs more complex logic.
-                    const yColString = Array.isArray(yCol) ? yCol[0] : yCol; // Take first if array for now
-                    if (!xCol || !yColString || !data[0]?.[xCol] || !data[0]?.[yColString]) return null;
+                    // Several y columns (e.g. one per pivoted platform) become one trace each
+                    const yColumns = (Array.isArray(yCol) ? yCol : [yCol]).filter(hasColumn);
+                    if (!hasColumn(xCol) || yColumns.length === 0) return null;
+
+                    // A line over time is drawn in date order, whatever order the query returned
+                    const isTimeSeries = type === 'line' && ['date', 'datetime'].includes(profiles[xCol].type);
+                    const rows = isTimeSeries ? [...data].sort((a, b) => String(a[xCol]).localeCompare(String(b[xCol]))) : data;
+                    const xValues = rows.map(row => row[xCol]) as Plotly.Datum[];
+                    const isMultiSeries = yColumns.length > 1;
 
-                    const xValues = data.map(row => row[xCol]) as Plotly.Datum[];
-                    const yValues = data.map(row => row[yColString]) as Plotly.Datum[];
-                    
-                    const trace: Partial<Plotly.PlotData> = {
-                        x: xValues, y: yValues,
-                        type: type === 'line' ? 'scatter' : type,
-                        mode: type === 'line' ? 'lines+markers' : (type === 'scatter' ? 'markers' : undefined),
-                        name: plotlySpecificTitle || yColString,
-                        marker: {
-                            line: { 
-                                color: type === 'bar' ? 'transparent' : undefined,
-                                width: type === 'bar' ? 1 : 0 
+                    for (const yColString of yColumns) {
+                        const yValues = rows.map(row => row[yColString]) as Plotly.Datum[];
+
+                        const trace: Partial<Plotly.PlotData> = {
+                            x: xValues, y: yValues,
+                            type: type === 'line' ? 'scatter' : type,
+                            mode: type === 'line' ? 'lines+markers' : (type === 'scatter' ? 'markers' : undefined),
+                            name: isMultiSeries ? yColString : plotlySpecificTitle || yColString,
+                            marker: {
+                                line: { 
+                                    color: type === 'bar' ? 'transparent' : undefined,
+                                    width: type === 'bar' ? 1 : 0 
+                                },
+                                opacity: 0.9,
+                                size: type === 'scatter' ? 8 : undefined,
                             },
-                            opacity: 0.9,
-                            size: type === 'scatter' ? 8 : undefined,
-                        },
-                        line: { width: type === 'line' ? 2 : undefined },                        
-                        hovertemplate: 
-                            `<b>${xCol || 'X'}:</b> %{x}<br>` +
-                            `<b>${yColString || 'Y'}:</b> %{y}<br>` +
-                            (colorCol && data[0]?.[colorCol] ? `<b>${colorCol}:</b> %{marker.color}<br>` : '') +
-                            '<extra></extra>'
-                    };
+                            line: { width: type === 'line' ? 2 : undefined },                        
+                            hovertemplate: 
+                                `<b>${xCol || 'X'}:</b> %{x}<br>` +
+                                `<b>${yColString || 'Y'}:</b> %{y}<br>` +
+                                (colorCol && data[0]?.[colorCol] ? `<b>${colorCol}:</b> %{marker.color}<br>` : '') +
+                                '<extra></extra>'
+                        };
 
-                    if (colorCol && data[0]?.[colorCol]) {
-                        const colorValues = data.map(row => row[colorCol]) as Plotly.Color;
-                        trace.marker = { ...(trace.marker || {}), color: colorValues };
-                        layout.colorway = undefined; // Override theme colorway if data-driven color is used
-                    } else {
-                        // Assign primaryTraceColor from props to single trace
-                        if (trace.marker) trace.marker.color = primaryTraceColor;
-                        if (trace.line) trace.line.color = primaryTraceColor;
+                        if (colorCol && data[0]?.[colorCol]) {
+                            const colorValues = rows.map(row => row[colorCol]) as Plotly.Color;
+                            trace.marker = { ...(trace.marker || {}), color: colorValues };
+                            layout.colorway = undefined; // Override theme colorway if data-driven color is used
+                        } else if (!isMultiSeries) {
+                            // Assign primaryTraceColor from props to single trace; multiple traces take the colorway
+                            if (trace.marker) trace.marker.color = primaryTraceColor;
+                            if (trace.line) trace.line.color = primaryTraceColor;
+                        }
+                        plotData.push(trace);
                     }
-                    plotData.push(trace);
+                    if (isMultiSeries && type === 'bar') layout.barmode = 'group';
                     break;
 
                 case 'pie':
-                    if (!nameCol || !valCol || !data[0]?.[nameCol] || !data[0]?.[valCol]) return null;
+                    if (!hasColumn(nameCol) || !hasColumn(valCol)) return null;
                     plotData.push({
                         labels: data.map(row => row[nameCol]) as Plotly.Datum[],
                         values: data.map(row => row[valCol]) as Plotly.Datum[],
@@ -301,8 +345,19 @@ const GraphViewer: React.FC<GraphViewerProps> = ({
                 <CardTitle className="truncate pr-2"> {/* Allow title to truncate */}
                     {graphSuggestion?.title || (result?.objective ? `${result.objective}` : 'Graph')}
                 </CardTitle>
+                {onClose && (
+                    <Button variant="outline" size="sm" onClick={onClose} className="flex-shrink-0">
+                        <X className="h-4 w-4" />
+                        Back to Suggestions
+                    </Button>
+                )}
                 {totalCount > 0 && (
                     <div className="flex items-center gap-1 flex-shrink-0">
+                        {onAttach && graphSuggestion && graphSuggestion.type !== 'none' && (
+                            <Button variant="outline" size="sm" onClick={onAttach} disabled={isProcessing} className="mr-1">
+                                Attach Chart
+                            </Button>
+                        )}
                         <Button variant="outline" size="icon" onClick={onPrev} disabled={currentIndex <= 0 || isProcessing}>
                             <ArrowLeft className="h-4 w-4" />
                         </Button>
@@ -0,0 +1,121 @@
+'use client';
+
+import React from 'react';
+import { ColumnProfile, NUMERIC_COLUMN_TYPES } from '@/lib/columnProfile';
+import { Aggregation, AGGREGATION_LABELS, DATE_GRANULARITIES, DateGranularity, GroupKey, PivotConfig } from '@/lib/tablePivot';
+import { Button } from "@/components/ui/button";
+import { Plus, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PivotConfigPanelProps {
+    columns: string[];
+    profiles: Record<string, ColumnProfile>;
+    config: PivotConfig;
+    onChange: (config: PivotConfig) => void;
+}
+
+const selectClass = "h-7 rounded-md border border-input bg-transparent px-2 text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30";
+
+const isDateColumn = (profile: ColumnProfile | undefined) => profile?.type === 'date' || profile?.type === 'datetime';
+
+// Row groups, an optional column pivot and the aggregated values for the Table Viewer's pivot mode
+const PivotConfigPanel: React.FC<PivotConfigPanelProps> = ({ columns, profiles, config, onChange }) => {
+    const { rowGroups, columnPivot, measures } = config;
+    const usedGroupColumns = [...rowGroups.map(key => key.column), ...(columnPivot ? [columnPivot.column] : [])];
+    const availableGroupColumns = columns.filter(column => !usedGroupColumns.includes(column));
+
+    // Date columns default to weekly groups; anything else groups by its exact values
+    const newGroupKey = (column: string): GroupKey => isDateColumn(profiles[column]) ? { column, granularity: 'week' } : { column };
+
+    const renderGranularity = (key: GroupKey, update: (key: GroupKey) => void) => isDateColumn(profiles[key.column]) && (
+        <select
+            className={cn(selectClass, "h-6")}
+            value={key.granularity ?? ''}
+            onChange={(e) => update({ column: key.column, granularity: (e.target.value || undefined) as DateGranularity | undefined })}
+            aria-label={`Group ${key.column} by`}
+        >
+            <option value="">exact</option>
+            {DATE_GRANULARITIES.map(granularity => <option key={granularity} value={granularity}>{granularity}</option>)}
+        </select>
+    );
+
+    const renderAddColumn = (label: string, onAdd: (column: string) => void) => availableGroupColumns.length > 0 && (
+        <select className={selectClass} value="" onChange={(e) => e.target.value && onAdd(e.target.value)} aria-label={label}>
+            <option value="">{label}</option>
+            {availableGroupColumns.map(column => <option key={column} value={column}>{column}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="rounded-md border bg-muted/30 p-2 space-y-2 text-xs">
+            <div className="flex flex-wrap items-center gap-1">
+                <span className="w-20 text-muted-foreground">Group rows</span>
+                {rowGroups.map((key, index) => (
+                    <span key={key.column} className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5">
+                        {key.column}
+                        {renderGranularity(key, updated => onChange({ ...config, rowGroups: rowGroups.map((k, i) => i === index ? updated : k) }))}
+                        <button onClick={() => onChange({ ...config, rowGroups: rowGroups.filter((_, i) => i !== index) })} aria-label={`Stop grouping by ${key.column}`} className="text-muted-foreground hover:text-foreground">
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ))}
+                {renderAddColumn('Add group...', column => onChange({ ...config, rowGroups: [...rowGroups, newGroupKey(column)] }))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+                <span className="w-20 text-muted-foreground">Pivot columns</span>
+                {columnPivot ? (
+                    <span className="inline-flex items-center gap-1 rounded-full border bg-background px-2 py-0.5">
+                        {columnPivot.column}
+                        {renderGranularity(columnPivot, updated => onChange({ ...config, columnPivot: updated }))}
+                        <button onClick={() => onChange({ ...config, columnPivot: null })} aria-label={`Stop pivoting on ${columnPivot.column}`} className="text-muted-foreground hover:text-foreground">
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ) : renderAddColumn('None', column => onChange({ ...config, columnPivot: newGroupKey(column) }))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1">
+                <span className="w-20 text-muted-foreground">Values</span>
+                {measures.map((measure, index) => (
+                    <span key={index} className="inline-flex items-center gap-1 rounded-full border bg-background px-1 py-0.5">
+                        <select
+                            className={cn(selectClass, "h-6")}
+                            value={measure.aggregation}
+                            onChange={(e) => onChange({ ...config, measures: measures.map((m, i) => i === index ? { ...m, aggregation: e.target.value as Aggregation } : m) })}
+                            aria-label="Aggregation"
+                        >
+                            {(Object.keys(AGGREGATION_LABELS) as Aggregation[]).map(aggregation => (
+                                <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+                            ))}
+                        </select>
+                        <select
+                            className={cn(selectClass, "h-6")}
+                            value={measure.column}
+                            onChange={(e) => onChange({ ...config, measures: measures.map((m, i) => i === index ? { ...m, column: e.target.value } : m) })}
+                            aria-label="Column"
+                        >
+                            {columns.map(column => <option key={column} value={column}>{column}</option>)}
+                        </select>
+                        <button onClick={() => onChange({ ...config, measures: measures.filter((_, i) => i !== index) })} aria-label="Remove value" className="text-muted-foreground hover:text-foreground">
+                            <X className="h-3 w-3" />
+                        </button>
+                    </span>
+                ))}
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => {
+                        // Start from the first numeric column not aggregated yet
+                        const column = columns.find(c => NUMERIC_COLUMN_TYPES.includes(profiles[c]?.type) && !measures.some(m => m.column === c)) ?? columns[0];
+                        onChange({ ...config, measures: [...measures, { column, aggregation: NUMERIC_COLUMN_TYPES.includes(profiles[column]?.type) ? 'sum' : 'count' }] });
+                    }}
+                >
+                    <Plus className="h-3 w-3" />
+                    Add value
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default PivotConfigPanel;
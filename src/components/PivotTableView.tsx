@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { ColumnProfile, formatCell, NUMERIC_COLUMN_TYPES } from '@/lib/columnProfile';
+import { cellText } from '@/lib/tableFilters';
+import { groupColumnName, PivotConfig, PivotResult } from '@/lib/tablePivot';
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableFooter,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { ArrowUpDown } from "lucide-react";
+
+interface PivotTableViewProps {
+    pivot: PivotResult;
+    config: PivotConfig;
+    profiles: Record<string, ColumnProfile>; // Profiles of the source columns
+}
+
+// Groups are rendered all at once; grouping on an ID-like column can produce thousands
+const MAX_ROWS_SHOWN = 1000;
+
+const INTEGER_PROFILE: ColumnProfile = { type: 'integer', inferredType: 'integer', currency: 'USD', percentScale: 'points' };
+
+// Aggregates are formatted like the column they summarise: summed spend is still currency, counts are integers
+function pivotColumnProfiles(pivot: PivotResult, config: PivotConfig, profiles: Record<string, ColumnProfile>): Record<string, ColumnProfile> {
+    const groupProfiles = config.rowGroups.map(key => {
+        const profile = profiles[key.column];
+        return [groupColumnName(key), profile && key.granularity ? { ...profile, type: 'date' as const } : profile];
+    });
+    const valueProfiles = Object.entries(pivot.measureOf).map(([column, measure]) => {
+        if (measure.aggregation === 'count' || measure.aggregation === 'distinct') return [column, INTEGER_PROFILE];
+        const profile = profiles[measure.column];
+        return [column, measure.aggregation === 'avg' && profile?.type === 'integer' ? { ...profile, type: 'decimal' as const } : profile];
+    });
+    return Object.fromEntries([...groupProfiles, ...valueProfiles].filter(([, profile]) => profile !== undefined));
+}
+
+// Read-only table of a pivot, sortable by any column, with grand totals in the footer
+const PivotTableView: React.FC<PivotTableViewProps> = ({ pivot, config, profiles }) => {
+    const [sort, setSort] = useState<{ column: string; desc: boolean } | null>(null);
+
+    const columnProfiles = useMemo(() => pivotColumnProfiles(pivot, config, profiles), [pivot, config, profiles]);
+    const columns = [...pivot.groupColumns, ...pivot.valueColumns];
+
+    const sortedRows = useMemo(() => {
+        if (!sort) return pivot.rows;
+        const direction = sort.desc ? -1 : 1;
+        return [...pivot.rows].sort((a, b) => {
+            const x = a[sort.column], y = b[sort.column];
+            if (typeof x === 'number' && typeof y === 'number') return (x - y) * direction;
+            return cellText(x).localeCompare(cellText(y), undefined, { numeric: true }) * direction;
+        });
+    }, [pivot.rows, sort]);
+
+    const renderValue = (column: string, value: unknown) => {
+        const profile = columnProfiles[column];
+        const isNumeric = typeof value === 'number' && !!profile && NUMERIC_COLUMN_TYPES.includes(profile.type);
+        return <div className={isNumeric ? "whitespace-nowrap text-right tabular-nums" : "whitespace-nowrap"}>{formatCell(value, profile)}</div>;
+    };
+
+    if (pivot.valueColumns.length === 0) {
+        return <p className="text-muted-foreground italic text-sm p-4 text-center">Add a value to aggregate.</p>;
+    }
+
+    return (
+        <>
+            <Table>
+                <TableHeader className="sticky top-0 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-10">
+                    <TableRow>
+                        {columns.map(column => (
+                            <TableHead key={column} className="whitespace-nowrap px-2 py-2">
+                                <Button
+                                    variant="ghost"
+                                    onClick={() => setSort(prev => ({ column, desc: prev?.column === column ? !prev.desc : false }))}
+                                    className="-ml-4"
+                                >
+                                    {column}
+                                    <ArrowUpDown className="ml-2 h-4 w-4" />
+                                </Button>
+                            </TableHead>
+                        ))}
+                    </TableRow>
+                </TableHeader>
+                <TableBody>
+                    {sortedRows.slice(0, MAX_ROWS_SHOWN).map((row, index) => (
+                        <TableRow key={index} className="hover:bg-muted/50">
+                            {columns.map(column => (
+                                <TableCell key={column} className="text-xs px-2 py-1">
+                                    {renderValue(column, row[column])}
+                                </TableCell>
+                            ))}
+                        </TableRow>
+                    ))}
+                </TableBody>
+                {pivot.groupColumns.length > 0 && (
+                    <TableFooter className="sticky bottom-0 bg-muted">
+                        <TableRow>
+                            {columns.map(column => (
+                                <TableCell key={column} className="text-xs px-2 py-1 font-semibold">
+                                    {renderValue(column, pivot.totals[column])}
+                                </TableCell>
+                            ))}
+                        </TableRow>
+                    </TableFooter>
+                )}
+            </Table>
+            {sortedRows.length > MAX_ROWS_SHOWN && (
+                <p className="text-xs text-muted-foreground p-2">
+                    Showing the first {MAX_ROWS_SHOWN.toLocaleString()} of {sortedRows.length.toLocaleString()} groups. Export to see them all.
+                </p>
+            )}
+        </>
+    );
+};
+
+export default PivotTableView;
@@ -0,0 +1,74 @@
+'use client';
+
+import React, { useState } from 'react';
+import CodeMirror from '@uiw/react-codemirror';
+import { StreamLanguage } from '@codemirror/language';
+import { cypher } from '@codemirror/legacy-modes/mode/cypher';
+import { useTheme } from 'next-themes';
+import { QueryRunMode } from '@/hooks/useChat';
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+const cypherLanguage = StreamLanguage.define(cypher);
+
+interface QueryEditorProps {
+    initialQuery: string;
+    onRun: (query: string, mode: QueryRunMode) => Promise<string | null>; // Resolves with an error message, or null on success
+    onClose: () => void;
+}
+
+// Cypher editor for re-running a generated query with changes
+const QueryEditor: React.FC<QueryEditorProps> = ({ initialQuery, onRun, onClose }) => {
+    const { resolvedTheme } = useTheme();
+    const [draft, setDraft] = useState(initialQuery);
+    const [runningMode, setRunningMode] = useState<QueryRunMode | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const isUnchanged = draft.trim() === initialQuery.trim();
+
+    const handleRun = async (mode: QueryRunMode) => {
+        setRunningMode(mode);
+        setError(null);
+        const runError = await onRun(draft.trim(), mode);
+        setRunningMode(null);
+        if (runError) {
+            setError(runError);
+        } else {
+            onClose();
+        }
+    };
+
+    return (
+        <div className="mt-1 space-y-2">
+            <div className="rounded border overflow-hidden text-xs">
+                <CodeMirror
+                    value={draft}
+                    onChange={setDraft}
+                    extensions={[cypherLanguage]}
+                    theme={resolvedTheme === 'dark' ? 'dark' : 'light'}
+                    basicSetup={{ foldGutter: false, highlightActiveLine: false }}
+                    minHeight="6rem"
+                    maxHeight="16rem"
+                    editable={runningMode === null}
+                    autoFocus
+                />
+            </div>
+            {error && <p className="text-destructive whitespace-pre-wrap">{error}</p>}
+            <div className="flex items-center gap-2">
+                <Button size="sm" onClick={() => handleRun('replace')} disabled={isUnchanged || runningMode !== null}>
+                    {runningMode === 'replace' && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Run &amp; Replace
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => handleRun('add')} disabled={isUnchanged || runningMode !== null}>
+                    {runningMode === 'add' && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Run as New Table
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onClose} disabled={runningMode !== null}>
+                    Cancel
+                </Button>
+            </div>
+        </div>
+    );
+};
+
+export default QueryEditor;
@@ -0,0 +1,27 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+
+interface RetryCountdownProps {
+    retryAt: number; // Epoch ms
+}
+
+// Live "try again in Ns" line under a rate-limit message
+const RetryCountdown: React.FC<RetryCountdownProps> = ({ retryAt }) => {
+    const [now, setNow] = useState(() => Date.now());
+    const secondsLeft = Math.max(0, Math.ceil((retryAt - now) / 1000));
+
+    useEffect(() => {
+        if (secondsLeft === 0) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [secondsLeft]);
+
+    return (
+        <p className="text-xs mt-1 font-medium">
+            {secondsLeft > 0 ? `You can try again in ${secondsLeft}s.` : 'You can try again now.'}
+        </p>
+    );
+};
+
+export default RetryCountdown;
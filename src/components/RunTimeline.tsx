@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { RunState, RunStep } from '@/lib/chat/types';
+import { formatDuration } from '@/lib/chat/timeline';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface RunTimelineProps {
+    run: RunState | undefined;
+}
+
+const stepLabel = (step: string) => step.replace(/_/g, ' ');
+
+const barColors: Record<RunStep['status'], string> = {
+    running: 'bg-primary/60 animate-pulse',
+    completed: 'bg-primary',
+    failed: 'bg-destructive',
+};
+
+// One line per step: name, duration and a bar placed on the run's time axis
+const StepRow: React.FC<{ step: RunStep; runStart: number; runSpan: number; now: number; isRunActive: boolean }> = ({ step, runStart, runSpan, now, isRunActive }) => {
+    // A step left open by a stopped run has no known end
+    const isInterrupted = step.endedAt === undefined && !isRunActive;
+    const end = step.endedAt ?? (isRunActive ? now : step.startedAt);
+    const offset = ((step.startedAt - runStart) / runSpan) * 100;
+    const width = Math.max(((end - step.startedAt) / runSpan) * 100, 0.5);
+    const hasPayload = step.details || step.routing;
+
+    const summary = (
+        <div className="grid grid-cols-[9rem_1fr_5rem] items-center gap-2 text-xs">
+            <span className={cn("truncate font-medium capitalize", step.status === 'failed' && "text-destructive")} title={step.step}>
+                {stepLabel(step.step)}
+            </span>
+            <div className="relative h-3 rounded bg-muted">
+                <div className={cn("absolute top-0 h-3 rounded", barColors[step.status])} style={{ left: `${offset}%`, width: `${width}%` }} />
+            </div>
+            <span className="text-right text-muted-foreground tabular-nums">
+                {isInterrupted ? 'stopped' : formatDuration(end - step.startedAt)}
+            </span>
+        </div>
+    );
+
+    if (!hasPayload) return <div className="px-1 py-0.5">{summary}</div>;
+
+    return (
+        <details className="px-1 py-0.5">
+            <summary className="cursor-pointer list-none">{summary}</summary>
+            <div className="mt-1 ml-2 space-y-1 text-xs">
+                <p className="text-muted-foreground">
+                    Started {new Date(step.startedAt).toLocaleTimeString()}
+                    {step.endedAt !== undefined && `, ended ${new Date(step.endedAt).toLocaleTimeString()}`}
+                </p>
+                {step.details && (
+                    <p className={cn(step.status === 'failed' && "text-destructive")}>{step.details}</p>
+                )}
+                {step.routing && (
+                    <pre className="whitespace-pre-wrap p-2 border rounded bg-muted/30">{JSON.stringify(step.routing, null, 2)}</pre>
+                )}
+            </div>
+        </details>
+    );
+};
+
+// Collapsible Gantt view of the viewed run's workflow steps
+const RunTimeline: React.FC<RunTimelineProps> = ({ run }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [now, setNow] = useState(() => Date.now());
+    const isRunActive = run?.status === 'running';
+
+    // Running steps grow until the run ends
+    useEffect(() => {
+        if (!isOpen || !isRunActive) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isOpen, isRunActive]);
+
+    const steps = run?.steps ?? [];
+    const runStart = Math.min(run?.startedAt ?? Infinity, ...steps.map(s => s.startedAt));
+    const runEnd = Math.max(...steps.map(s => s.endedAt ?? (isRunActive ? now : s.startedAt)), runStart);
+    const runSpan = Math.max(runEnd - runStart, 1);
+    const failedSteps = steps.filter(s => s.status === 'failed').length;
+
+    return (
+        <Card className="flex-shrink-0 gap-2 py-3">
+            <CardHeader className="flex-row items-center justify-between px-4">
+                <Button variant="ghost" size="sm" className="-ml-2" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen}>
+                    {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    <CardTitle className="text-sm">Workflow timeline</CardTitle>
+                </Button>
+                {steps.length > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                        {steps.length} {steps.length === 1 ? 'step' : 'steps'}
+                        {failedSteps > 0 && <span className="text-destructive">, {failedSteps} failed</span>}
+                        {' · '}{formatDuration(runSpan)}
+                    </p>
+                )}
+            </CardHeader>
+            {isOpen && (
+                <CardContent className="max-h-64 overflow-y-auto px-4 space-y-0.5">
+                    {steps.length === 0 ? (
+                        <p className="text-sm text-muted-foreground italic">No workflow steps reported for this turn.</p>
+                    ) : (
+                        steps.map((step, index) => (
+                            <StepRow key={`${step.step}_${index}`} step={step} runStart={runStart} runSpan={runSpan} now={now} isRunActive={isRunActive} />
+                        ))
+                    )}
+                </CardContent>
+            )}
+        </Card>
+    );
+};
+
+export default RunTimeline;
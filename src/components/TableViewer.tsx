@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useMemo, useState, useEffect } from 'react';
-import { QueryResult } from '@/hooks/useChat'; // Assuming useChat exports this type
+import React, { useCallback, useMemo, useState, useEffect, useRef } from 'react';
+import { ChatAttachment, DerivedColumn, QueryResult, QueryRunMode } from '@/hooks/useChat'; // Assuming useChat exports this type
+import { generateAttachmentId } from '@/lib/chat/attachments';
 import {
     ColumnDef,
     flexRender,
@@ -10,26 +11,81 @@ import {
     createColumnHelper,
     SortingState,
     getSortedRowModel,
+    getFilteredRowModel,
+    getFacetedRowModel,
+    getFacetedUniqueValues,
+    getFacetedMinMaxValues,
     RowSelectionState,
+    ColumnFiltersState,
+    FilterFn,
+    VisibilityState,
+    ColumnOrderState,
+    ColumnSizingState,
+    ColumnPinningState,
+    Column,
+    Updater,
 } from "@tanstack/react-table";
+import { useVirtualizer } from "@tanstack/react-virtual";
 import {
     Table,
     TableBody,
     TableCell,
+    TableFooter,
     TableHead,
     TableHeader,
     TableRow,
 } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, ArrowRight, ArrowUpDown } from "lucide-react";
+import { ArrowDown, ArrowLeft, ArrowRight, ArrowUp, ArrowUpDown, ChartLine, Download, Loader2, Minus, Search, Sigma, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Skeleton } from "@/components/ui/skeleton";
+import QueryEditor from './QueryEditor';
+import ColumnFilterPopover from './ColumnFilterPopover';
+import ColumnFormatPopover from './ColumnFormatPopover';
+import ColumnManagerPopover from './ColumnManagerPopover';
+import ConditionalFormatPopover from './ConditionalFormatPopover';
+import PivotConfigPanel from './PivotConfigPanel';
+import PivotTableView from './PivotTableView';
+import DerivedColumnPopover from './DerivedColumnPopover';
+import { cellText, ColumnFilterValue, describeColumnFilter, filterKindFor, matchesColumnFilter } from '@/lib/tableFilters';
+import { EXPORT_FORMATS, ExportFormat, exportRows } from '@/lib/tableExport';
+import { chooseAxes, ColumnType, formatCell, NUMERIC_COLUMN_TYPES, profileColumns, withFormatOverrides } from '@/lib/columnProfile';
+import { aggregate, PivotChart, PivotConfig, pivotRows } from '@/lib/tablePivot';
+import { withDerivedColumns } from '@/lib/derivedColumns';
+import { cellBackgroundImage, cellFormatting, columnRanges, ConditionalFormats } from '@/lib/conditionalFormats';
+import { clearTableLayout, loadTableLayout, saveTableLayout } from '@/lib/tableLayouts';
+import { cn } from "@/lib/utils";
 
 // Type for dynamic data rows
 type DataRow = Record<string, unknown>;
 const columnHelper = createColumnHelper<DataRow>();
 
+// Only the visible rows are rendered; rows with JSON cells are measured once shown
+const ROW_HEIGHT_ESTIMATE = 33;
+// Fetch the next page of a result sent by reference this many rows before the end
+const LOAD_MORE_THRESHOLD = 50;
+
+// The selection column always comes first, pinned, at a fixed width
+const DEFAULT_COLUMN_PINNING: ColumnPinningState = { left: ['select'] };
+
+// Pinned columns stick to the left edge while the table scrolls sideways
+const pinnedColumnStyle = (column: Column<DataRow, unknown>): React.CSSProperties =>
+    column.getIsPinned() === 'left' ? { position: 'sticky', left: column.getStart('left'), zIndex: 1 } : {};
+const pinnedColumnClass = (column: Column<DataRow, unknown>) => cn(
+    column.getIsPinned() === 'left' && "bg-background",
+    column.getIsLastColumn('left') && "shadow-[inset_-1px_0_0_var(--color-border)]"
+);
+
+const columnFilterFn: FilterFn<DataRow> = (row, columnId, filterValue: ColumnFilterValue) =>
+    matchesColumnFilter(row.getValue(columnId), filterValue);
+
+// Global search: a row matches when any of its cells contains the text
+const searchFilterFn: FilterFn<DataRow> = (row, columnId, search: string) =>
+    cellText(row.getValue(columnId)).toLowerCase().includes(search.trim().toLowerCase());
+
 interface TableViewerProps {
     result: QueryResult | undefined;
     currentIndex: number;
@@ -38,7 +94,11 @@ interface TableViewerProps {
     onPrev: () => void;
     isProcessing: boolean;
     isInitialState: boolean; // Flag for initial empty state
-    onSetPendingContext: (context: { display: string; backend: string }) => void;
+    onAttach: (attachment: ChatAttachment) => void;
+    onRunEditedQuery?: (query: string, mode: QueryRunMode) => Promise<string | null>; // Omitted where queries can't be re-run (e.g. replays)
+    onLoadMore?: () => Promise<string | null>; // Next page of a result sent by reference; resolves with an error message
+    onChartPivot?: (chart: PivotChart) => void; // Shows the pivot in the Graph Viewer
+    onDerivedColumnsChange?: (derivedColumns: DerivedColumn[]) => void; // Omitted where the result is read-only (e.g. replays)
 }
 
 // New Placeholder Component (internal or could be separate)
@@ -70,23 +130,106 @@ const TablePlaceholderContent: React.FC = () => {
     );
 };
 
-const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCount, onNext, onPrev, isProcessing, isInitialState, onSetPendingContext }) => {
+const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCount, onNext, onPrev, isProcessing, isInitialState, onAttach, onRunEditedQuery, onLoadMore, onChartPivot, onDerivedColumnsChange }) => {
     // Log the received result prop
     console.log(`[TableViewer] Rendering with result for index ${currentIndex}:`, result);
     
     const [sorting, setSorting] = useState<SortingState>([]);
     const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+    const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+    const [globalFilter, setGlobalFilter] = useState<string>('');
+    const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({});
+    const [formatOverrides, setFormatOverrides] = useState<Record<string, ColumnType>>({});
+    const [pivotConfig, setPivotConfig] = useState<PivotConfig | null>(null); // Set while in pivot mode
+    const [columnOrder, setColumnOrder] = useState<ColumnOrderState>([]);
+    const [columnSizing, setColumnSizing] = useState<ColumnSizingState>({});
+    const [columnPinning, setColumnPinning] = useState<ColumnPinningState>(DEFAULT_COLUMN_PINNING);
+    const [conditionalFormats, setConditionalFormats] = useState<ConditionalFormats>({});
+    const [layoutChangedFor, setLayoutChangedFor] = useState<string | null>(null); // Objective whose layout the user changed; only those are saved
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
     const [isContextStaged, setIsContextStaged] = useState<boolean>(false);
+    const [isTableAttached, setIsTableAttached] = useState<boolean>(false);
+    const [isEditingQuery, setIsEditingQuery] = useState<boolean>(false);
+    const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+    const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+    const scrollContainerRef = useRef<HTMLDivElement>(null);
 
     useEffect(() => {
         setIsContextStaged(false);
+        setIsTableAttached(false);
         setRowSelection({});
+        setColumnFilters([]);
+        setGlobalFilter('');
+        setFormatOverrides({});
+        setPivotConfig(null);
     }, [currentIndex]);
 
-    const data = useMemo(() => result?.dataframe ?? [], [result?.dataframe]);
+    // Each objective comes back with the column layout it was last left in
+    const objective = result?.objective;
+    useEffect(() => {
+        const layout = objective ? loadTableLayout(objective) : null;
+        setColumnOrder(layout?.columnOrder ?? []);
+        setColumnVisibility(layout?.columnVisibility ?? {});
+        setColumnSizing(layout?.columnSizing ?? {});
+        setColumnPinning(layout ? { left: ['select', ...layout.pinnedColumns] } : DEFAULT_COLUMN_PINNING);
+        setConditionalFormats(layout?.conditionalFormats ?? {});
+        setLayoutChangedFor(null);
+    }, [objective, currentIndex]);
+
+    useEffect(() => {
+        // Checking the objective keeps the previous table's layout from being saved under a newly shown one
+        if (!objective || layoutChangedFor !== objective) return;
+        saveTableLayout(objective, {
+            columnOrder,
+            columnVisibility,
+            columnSizing,
+            pinnedColumns: (columnPinning.left ?? []).filter(id => id !== 'select'),
+            conditionalFormats,
+        });
+    }, [layoutChangedFor, objective, columnOrder, columnVisibility, columnSizing, columnPinning, conditionalFormats]);
+
+    // Wraps a layout setter so the change gets saved
+    const changeLayout = <T,>(setState: React.Dispatch<React.SetStateAction<T>>) => (updater: Updater<T>) => {
+        setState(updater);
+        setLayoutChangedFor(objective ?? null);
+    };
+
+    // Same as changeLayout, but stable: the column headers are memoized on it
+    const changeConditionalFormats = useCallback((updater: Updater<ConditionalFormats>) => {
+        setConditionalFormats(updater);
+        setLayoutChangedFor(objective ?? null);
+    }, [objective]);
+
+    const resetLayout = () => {
+        if (objective) clearTableLayout(objective);
+        setColumnOrder([]);
+        setColumnVisibility({});
+        setColumnSizing({});
+        setColumnPinning(DEFAULT_COLUMN_PINNING);
+        setConditionalFormats({});
+        setLayoutChangedFor(null);
+    };
+
+    // A new selection (or a differently filtered table) can be staged again
+    useEffect(() => {
+        setIsContextStaged(false);
+        setIsTableAttached(false);
+    }, [rowSelection, columnFilters, globalFilter]);
+
+    // Rows with the computed columns added; everything below (filters, staging, export, pivots) works on these
+    const data = useMemo(() => result ? withDerivedColumns(result) : [], [result]);
+
+    // Each column is displayed according to its inferred type, unless the user picked another format...
+    const inferredProfiles = useMemo(() => profileColumns(data), [data]);
+    const columnProfiles = useMemo(() => withFormatOverrides(inferredProfiles, formatOverrides), [inferredProfiles, formatOverrides]);
+
+    // ...and filtered to match, so a column shown as a number gets a range filter
+    const columnKinds = useMemo(() => Object.fromEntries(Object.entries(columnProfiles).map(([key, profile]) =>
+        [key, filterKindFor(profile.type, data.map(row => row[key]))]
+    )), [data, columnProfiles]);
 
     const columns = useMemo<ColumnDef<DataRow, unknown>[]>(() => {
-        if (!result?.dataframe || result.dataframe.length === 0) {
+        if (data.length === 0) {
             return [];
         }
         
@@ -111,40 +254,109 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
             ),
             enableSorting: false,
             enableHiding: false,
+            enableResizing: false,
+            size: 40,
         };
 
-        const dataColumns = Object.keys(result.dataframe[0]).map(key => 
+        const derivedColumns = result?.derivedColumns ?? [];
+        const numericColumns = Object.keys(columnProfiles).filter(column => NUMERIC_COLUMN_TYPES.includes(columnProfiles[column].type));
+        const dataColumns = Object.keys(data[0]).map(key => 
             columnHelper.accessor(key, {
                 header: ({ column }) => {
+                  const kind = columnKinds[key] ?? 'text';
+                  // Bounds of the values left by the other filters, shown in the range editors
+                  const uniqueValues = kind === 'date' ? [...column.getFacetedUniqueValues().keys()].map(String).sort() : [];
+                  const range: [string | number, string | number] | undefined = kind === 'number'
+                    ? column.getFacetedMinMaxValues()
+                    : uniqueValues.length > 0 ? [uniqueValues[0], uniqueValues[uniqueValues.length - 1]] : undefined;
                   return (
-                    <Button
-                      variant="ghost"
-                      onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
-                      className="-ml-4"
-                    >
-                      {key}
-                      <ArrowUpDown className="ml-2 h-4 w-4" />
-                    </Button>
+                    <div className="flex items-center min-w-0">
+                      <Button
+                        variant="ghost"
+                        onClick={() => column.toggleSorting(column.getIsSorted() === "asc")}
+                        className="-ml-4 min-w-0 shrink"
+                        title={key}
+                      >
+                        <span className="truncate">{key}</span>
+                        <ArrowUpDown className="ml-2 h-4 w-4" />
+                      </Button>
+                      <ColumnFilterPopover
+                        column={key}
+                        kind={kind}
+                        value={column.getFilterValue() as ColumnFilterValue | undefined}
+                        onChange={column.setFilterValue}
+                        categoryCounts={kind === 'category' ? column.getFacetedUniqueValues() : undefined}
+                        range={range}
+                      />
+                      {columnProfiles[key] && (
+                        <ColumnFormatPopover
+                          column={key}
+                          inferredType={columnProfiles[key].inferredType}
+                          override={formatOverrides[key]}
+                          onChange={(type) => {
+                            // A filter of the old kind has no editor any more, so it goes
+                            const filter = column.getFilterValue() as ColumnFilterValue | undefined;
+                            if (filter && filter.kind !== filterKindFor(type ?? columnProfiles[key].inferredType, data.map(row => row[key]))) {
+                              column.setFilterValue(undefined);
+                            }
+                            setFormatOverrides(prev => {
+                              const next = { ...prev };
+                              if (type) next[key] = type; else delete next[key];
+                              return next;
+                            });
+                          }}
+                        />
+                      )}
+                      {(numericColumns.includes(key) || conditionalFormats[key]?.length > 0) && (
+                        <ConditionalFormatPopover
+                          column={key}
+                          rules={conditionalFormats[key] ?? []}
+                          baselineColumns={numericColumns.filter(column => column !== key)}
+                          onChange={(rules) => changeConditionalFormats(prev => {
+                            const next = { ...prev };
+                            if (rules.length > 0) next[key] = rules; else delete next[key];
+                            return next;
+                          })}
+                        />
+                      )}
+                      {result && onDerivedColumnsChange && derivedColumns.some(column => column.name === key) && (
+                        <DerivedColumnPopover
+                          result={result}
+                          sampleRow={data[0]}
+                          editing={derivedColumns.find(column => column.name === key)}
+                          onChange={onDerivedColumnsChange}
+                        />
+                      )}
+                    </div>
                   )
                 }, 
+                filterFn: columnFilterFn,
                 cell: info => {
                     const value = info.getValue();
-                    if (typeof value === 'object' && value !== null) {
-                        return <pre className="text-xs whitespace-pre-wrap">{JSON.stringify(value)}</pre>;
+                    const profile = columnProfiles[key];
+                    const text = formatCell(value, profile);
+                    if (profile?.type === 'json' && typeof value === 'object' && value !== null) {
+                        return <pre className="text-xs whitespace-pre-wrap">{text}</pre>;
                     }
-                    if (typeof value === 'number') {
-                        if (Math.abs(value) > 0.001 && !Number.isInteger(value)) {
-                            return value.toFixed(2); 
-                        }
+                    if (profile?.type === 'url' && typeof value === 'string' && /^https?:\/\//i.test(value)) {
+                        return (
+                            <a href={value} target="_blank" rel="noopener noreferrer" className="whitespace-nowrap text-primary underline-offset-2 hover:underline">
+                                {text}
+                            </a>
+                        );
                     }
-                    return <div className="whitespace-nowrap">{String(value)}</div>;
+                    // Numbers line up on the decimal point when right-aligned
+                    const isNumeric = typeof value === 'number' && !!profile && NUMERIC_COLUMN_TYPES.includes(profile.type);
+                    // The raw value stays a hover away when formatting changed it
+                    const raw = cellText(value);
+                    return <div className={isNumeric ? "whitespace-nowrap text-right tabular-nums" : "whitespace-nowrap"} title={raw !== text ? raw : undefined}>{text}</div>;
                 },
             })
         );
 
         return [selectionColumn, ...dataColumns];
 
-    }, [result?.dataframe]);
+    }, [result, data, columnKinds, columnProfiles, formatOverrides, conditionalFormats, changeConditionalFormats, onDerivedColumnsChange]);
 
     const table = useReactTable({
         data,
@@ -152,13 +364,78 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
         state: {
           sorting,
           rowSelection,
+          columnFilters,
+          globalFilter,
+          columnVisibility,
+          columnOrder,
+          columnSizing,
+          columnPinning,
         },
+        defaultColumn: { size: 160, minSize: 60, maxSize: 800 },
+        enableColumnResizing: true,
+        columnResizeMode: 'onChange',
         enableRowSelection: true,
         onRowSelectionChange: setRowSelection,
         onSortingChange: setSorting,
+        onColumnFiltersChange: setColumnFilters,
+        onGlobalFilterChange: setGlobalFilter,
+        onColumnVisibilityChange: changeLayout(setColumnVisibility),
+        onColumnOrderChange: changeLayout(setColumnOrder),
+        onColumnSizingChange: changeLayout(setColumnSizing),
+        onColumnPinningChange: changeLayout(setColumnPinning),
+        globalFilterFn: searchFilterFn,
+        getColumnCanGlobalFilter: column => column.id !== 'select',
         getCoreRowModel: getCoreRowModel(),
         getSortedRowModel: getSortedRowModel(),
+        getFilteredRowModel: getFilteredRowModel(),
+        getFacetedRowModel: getFacetedRowModel(),
+        getFacetedUniqueValues: getFacetedUniqueValues(),
+        getFacetedMinMaxValues: getFacetedMinMaxValues(),
     });
+    const isFiltered = columnFilters.length > 0 || globalFilter.trim() !== '';
+    // Chip labels for the active filters; also sent to the agent with a filtered table
+    const filterLabels = [
+        ...(globalFilter.trim() ? [`search "${globalFilter.trim()}"`] : []),
+        ...columnFilters.map(filter => describeColumnFilter(filter.id, filter.value as ColumnFilterValue)),
+    ];
+
+    const { rows } = table.getRowModel();
+    const rowVirtualizer = useVirtualizer({
+        count: rows.length,
+        getScrollElement: () => scrollContainerRef.current,
+        estimateSize: () => ROW_HEIGHT_ESTIMATE,
+        overscan: 10,
+    });
+    const virtualRows = rowVirtualizer.getVirtualItems();
+
+    // Color scales and data bars are relative to the rows left by the filters
+    const formatRanges = useMemo(
+        () => columnRanges(rows.map(row => row.original), conditionalFormats),
+        [rows, conditionalFormats]
+    );
+    // Spacer rows stand in for the rows above and below the rendered window
+    const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+    const paddingBottom = virtualRows.length > 0 ? rowVirtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+    // Load the next page once the user scrolls close to the last loaded row
+    const paging = result?.paging;
+    const lastVisibleIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+    const isNearEnd = rows.length > 0 && lastVisibleIndex >= rows.length - LOAD_MORE_THRESHOLD;
+    const canLoadMore = !!onLoadMore && !!paging?.nextCursor && !loadMoreError;
+    // Cursor of the last page requested: ask again only once that page has arrived and moved the cursor on
+    // (not the shown row count, which a page of rows hidden by the filters leaves unchanged)
+    const nextCursor = paging?.nextCursor;
+    const requestedCursorRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!isNearEnd || !canLoadMore || isLoadingMore || !onLoadMore || !nextCursor) return;
+        if (requestedCursorRef.current === nextCursor) return;
+        requestedCursorRef.current = nextCursor;
+        setIsLoadingMore(true);
+        onLoadMore().then(error => {
+            setLoadMoreError(error);
+            setIsLoadingMore(false);
+        });
+    }, [isNearEnd, canLoadMore, isLoadingMore, onLoadMore, nextCursor]);
 
     const canGoPrev = currentIndex > 0;
     const canGoNext = currentIndex < totalCount - 1;
@@ -176,41 +453,103 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
     if (showLoadingPlaceholder) statusText = "Generating table data...";
 
     const handleSendSelectedContext = () => {
-        console.log("[handleSendSelectedContext] Clicked.");
-        const selectedRows = table.getSelectedRowModel().rows;
-        const rowCount = selectedRows.length;
-        console.log(`[handleSendSelectedContext] Initial rowCount: ${rowCount}`);
-        
-        if (rowCount === 0) {
-            console.log("[handleSendSelectedContext] rowCount is 0, returning.");
+        // Selected rows hidden by a filter are not staged
+        const selectedRows = table.getFilteredSelectedRowModel().rows;
+        console.log(`[handleSendSelectedContext] Staging ${selectedRows.length} selected row(s).`);
+        if (!result || selectedRows.length === 0) return;
+
+        onAttach({
+            id: generateAttachmentId(),
+            kind: 'table_rows',
+            objective: result.objective,
+            rows: selectedRows.map(row => row.original),
+        });
+        setIsContextStaged(true); 
+    };
+
+    const handleAttachTable = () => {
+        if (!result) return;
+        console.log(`[handleAttachTable] Staging ${isFiltered ? 'filtered' : 'whole'} result: ${result.objective}`);
+        onAttach({
+            id: generateAttachmentId(),
+            kind: 'query_result',
+            objective: result.objective,
+            query: result.query,
+            rows: isFiltered ? rows.map(row => row.original) : data,
+            ...(isFiltered ? { filters: filterLabels } : {}),
+        });
+        setIsTableAttached(true);
+    };
+
+    // Exports what is on screen: selected rows if any (else every filtered row), sorted, visible columns only
+    const selectedRowCount = table.getFilteredSelectedRowModel().rows.length;
+    const handleExport = async (format: ExportFormat) => {
+        if (!result) return;
+        // In pivot mode the pivot is what's on screen
+        const exportedRows = pivot ? pivot.rows : (selectedRowCount > 0 ? rows.filter(row => row.getIsSelected()) : rows).map(row => row.original);
+        const exportedColumns = pivot
+            ? [...pivot.groupColumns, ...pivot.valueColumns]
+            : table.getVisibleLeafColumns().map(column => column.id).filter(id => id !== 'select');
+        console.log(`[handleExport] Exporting ${exportedRows.length} row(s) x ${exportedColumns.length} column(s) as ${format}`);
+        setExportingFormat(format);
+        try {
+            // Conditional formats are set on the flat table's columns, so a pivot is exported plain
+            const formatting = pivot ? undefined : { formats: conditionalFormats, ranges: formatRanges };
+            await exportRows(format, exportedRows, exportedColumns, { objective: result.objective, platform: result.platform }, formatting);
+        } catch (error) {
+            console.error('[handleExport] Export failed:', error);
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    const clearFilters = () => {
+        setColumnFilters([]);
+        setGlobalFilter('');
+    };
+
+    // Footer totals of the numeric columns, over the rows left by the filters (rates are averaged, not summed)
+    const footerTotals = useMemo(() => {
+        const numericColumns = Object.keys(columnProfiles).filter(column => NUMERIC_COLUMN_TYPES.includes(columnProfiles[column].type));
+        if (numericColumns.length === 0) return null;
+        return Object.fromEntries(numericColumns.map(column => {
+            const aggregation = columnProfiles[column].type === 'percentage' ? 'avg' : 'sum';
+            return [column, { aggregation, value: aggregate(rows.map(row => row.original[column]), aggregation) }];
+        }));
+    }, [rows, columnProfiles]);
+
+    // Pivot mode aggregates the filtered rows, so filters set on the flat table narrow the pivot too
+    const pivot = useMemo(
+        () => pivotConfig ? pivotRows(rows.map(row => row.original), pivotConfig) : null,
+        [pivotConfig, rows]
+    );
+
+    const togglePivot = () => {
+        if (pivotConfig) {
+            setPivotConfig(null);
             return;
         }
+        // Start from the obvious summary: the first measure by the first date (or label) column
+        const { x, y } = chooseAxes(columnProfiles);
+        const isDate = !!x && ['date', 'datetime'].includes(columnProfiles[x].type);
+        setPivotConfig({
+            rowGroups: x ? [{ column: x, ...(isDate ? { granularity: 'week' as const } : {}) }] : [],
+            columnPivot: null,
+            measures: y ? [{ column: y, aggregation: 'sum' }] : x ? [{ column: x, aggregation: 'count' }] : [],
+        });
+    };
 
-        const simpleContextString = "Context Added";
-
-        const selectedRowsData = selectedRows.map(row => row.original);
-        const headers = Object.keys(selectedRowsData[0]);
-        const headerLine = `| ${headers.join(" | ")} |`;
-        const separatorLine = `| ${headers.map(() => "---").join(" | ")} |`;
-        const bodyLines = selectedRowsData.map(row => 
-            `| ${headers.map(header => {
-                const value = row[header];
-                return typeof value === 'object' ? JSON.stringify(value) : String(value);
-            }).join(" | ")} |`
-        );
-        const markdownTable = [
-            headerLine,
-            separatorLine,
-            ...bodyLines,
-        ].join("\n");
-
-        console.log(`[handleSendSelectedContext] Calling onSetPendingContext with display: "${simpleContextString}" and backend data.`);
-        onSetPendingContext({ display: simpleContextString, backend: markdownTable });
-        
-        console.log("[handleSendSelectedContext] Setting isContextStaged = true");
-        setIsContextStaged(true); 
-        
-        console.log("[handleSendSelectedContext] Exiting.");
+    const handleChartPivot = () => {
+        if (!pivot || !pivotConfig || !result || !onChartPivot || pivot.groupColumns.length === 0) return;
+        const firstGroup = pivotConfig.rowGroups[0];
+        const isOverTime = !!firstGroup.granularity || ['date', 'datetime'].includes(columnProfiles[firstGroup.column]?.type);
+        onChartPivot({
+            title: `${result.objective} (pivot)`,
+            rows: pivot.rows,
+            type: isOverTime ? 'line' : 'bar',
+            x: pivot.groupColumns[0],
+            y: pivot.valueColumns,
+        });
     };
 
     return (
@@ -228,16 +567,82 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
                         } 
                     </div>
                     <div className='flex items-center gap-2 flex-shrink-0'>
-                        {table.getSelectedRowModel().rows.length > 0 && (
+                        {!pivot && table.getFilteredSelectedRowModel().rows.length > 0 && (
                              <Button 
                                 variant="outline" 
                                 size="sm" 
                                 onClick={handleSendSelectedContext}
                                 disabled={isContextStaged}
                              >
-                                 {isContextStaged ? 'Context Staged!' : `Stage Selected (${table.getSelectedRowModel().rows.length}) for Query`}
+                                 {isContextStaged ? 'Context Staged!' : `Stage Selected (${table.getFilteredSelectedRowModel().rows.length}) for Query`}
                              </Button>
                         )}
+                        {showTable && (
+                             <Button 
+                                variant="outline" 
+                                size="sm" 
+                                onClick={handleAttachTable}
+                                disabled={isTableAttached || rows.length === 0}
+                             >
+                                 {isTableAttached ? 'Table Attached!' : isFiltered ? `Attach Filtered (${rows.length})` : 'Attach Table'}
+                             </Button>
+                        )}
+                        {showTable && pivot && onChartPivot && (
+                            <Button variant="outline" size="sm" onClick={handleChartPivot} disabled={pivot.groupColumns.length === 0 || pivot.valueColumns.length === 0}>
+                                <ChartLine className="h-4 w-4" />
+                                Chart Pivot
+                            </Button>
+                        )}
+                        {showTable && (
+                            <Button
+                                variant={pivotConfig ? "secondary" : "outline"}
+                                size="sm"
+                                onClick={togglePivot}
+                                aria-pressed={!!pivotConfig}
+                                title={pivotConfig ? 'Back to the rows' : 'Group, pivot and aggregate'}
+                            >
+                                <Sigma className="h-4 w-4" />
+                                Pivot
+                            </Button>
+                        )}
+                        {showTable && !pivot && result && onDerivedColumnsChange && (
+                            <DerivedColumnPopover result={result} sampleRow={data[0]} onChange={onDerivedColumnsChange} />
+                        )}
+                        {showTable && !pivot && <ColumnManagerPopover table={table} onReset={resetLayout} />}
+                        {showTable && (
+                            <Popover>
+                                <PopoverTrigger asChild>
+                                    <Button variant="outline" size="icon" aria-label="Export table" title="Export table" disabled={rows.length === 0}>
+                                        {exportingFormat ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                                    </Button>
+                                </PopoverTrigger>
+                                <PopoverContent align="end" className="w-56 space-y-1">
+                                    <p className="text-sm font-medium">Export</p>
+                                    <p className="text-xs text-muted-foreground mb-2">
+                                        {pivot
+                                            ? `Pivot: ${pivot.rows.length.toLocaleString()} group${pivot.rows.length === 1 ? '' : 's'}`
+                                            : <>
+                                                {selectedRowCount > 0
+                                                    ? `${selectedRowCount} selected row${selectedRowCount === 1 ? '' : 's'}`
+                                                    : `${rows.length.toLocaleString()}${isFiltered ? ' filtered' : ''} row${rows.length === 1 ? '' : 's'}`}
+                                                , {table.getVisibleLeafColumns().length - 1} column{table.getVisibleLeafColumns().length === 2 ? '' : 's'}
+                                            </>}
+                                    </p>
+                                    {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                                        <Button
+                                            key={format}
+                                            variant="ghost"
+                                            size="sm"
+                                            className="w-full justify-start"
+                                            onClick={() => handleExport(format)}
+                                            disabled={exportingFormat !== null}
+                                        >
+                                            {EXPORT_FORMATS[format].label}
+                                        </Button>
+                                    ))}
+                                </PopoverContent>
+                            </Popover>
+                        )}
                         {totalCount > 1 && !showInitialPlaceholder && (
                             <div className="flex items-center gap-2">
                                 <Button variant="outline" size="icon" onClick={onPrev} disabled={!canGoPrev || showLoadingPlaceholder}>
@@ -262,6 +667,51 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
                 </div>
             </CardHeader>
             <CardContent className="flex-grow flex flex-col min-h-[18rem]">
+                {showTable && !showLoadingPlaceholder && !showInitialPlaceholder && (
+                    <div className="mb-2 space-y-2 flex-shrink-0">
+                        <div className="relative">
+                            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                            <Input
+                                placeholder="Search all columns..."
+                                value={globalFilter}
+                                onChange={(e) => setGlobalFilter(e.target.value)}
+                                className="h-8 pl-8"
+                            />
+                        </div>
+                        {isFiltered && (
+                            <div className="flex flex-wrap items-center gap-1 text-xs">
+                                {globalFilter.trim() && (
+                                    <span className="inline-flex items-center gap-1 rounded-full border bg-muted/50 px-2 py-0.5">
+                                        Search &quot;{globalFilter.trim()}&quot;
+                                        <button onClick={() => setGlobalFilter('')} aria-label="Clear search" className="text-muted-foreground hover:text-foreground">
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </span>
+                                )}
+                                {columnFilters.map(filter => (
+                                    <span key={filter.id} className="inline-flex items-center gap-1 rounded-full border bg-muted/50 px-2 py-0.5">
+                                        {describeColumnFilter(filter.id, filter.value as ColumnFilterValue)}
+                                        <button onClick={() => table.getColumn(filter.id)?.setFilterValue(undefined)} aria-label={`Clear ${filter.id} filter`} className="text-muted-foreground hover:text-foreground">
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={clearFilters}>
+                                    Clear all
+                                </Button>
+                                <span className="ml-auto text-muted-foreground">{rows.length.toLocaleString()} of {data.length.toLocaleString()} rows</span>
+                            </div>
+                        )}
+                        {pivotConfig && (
+                            <PivotConfigPanel
+                                columns={Object.keys(data[0])}
+                                profiles={columnProfiles}
+                                config={pivotConfig}
+                                onChange={setPivotConfig}
+                            />
+                        )}
+                    </div>
+                )}
                 {(showInitialPlaceholder || showLoadingPlaceholder) ? (
                      <TablePlaceholderContent />
                 ) : showError ? (
@@ -269,35 +719,84 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
                         <p className='font-medium mb-1'>Error retrieving data for table:</p>
                         <pre className='text-sm whitespace-pre-wrap'>{result.error}</pre>
                     </div>
+                ) : showTable && pivot && pivotConfig ? (
+                    <div className="flex-grow max-h-96 rounded-md border overflow-auto relative">
+                        <PivotTableView pivot={pivot} config={pivotConfig} profiles={columnProfiles} />
+                    </div>
                 ) : showTable ? (
-                    <div className="flex-grow rounded-md border overflow-auto relative"> 
-                        <Table>
+                    <div ref={scrollContainerRef} className="flex-grow max-h-96 rounded-md border overflow-auto relative"> 
+                        <Table className="table-fixed" style={{ width: table.getTotalSize(), minWidth: '100%' }}>
                             <TableHeader className="sticky top-0 bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 z-10"> 
                                 {table.getHeaderGroups().map((headerGroup) => (
                                     <TableRow key={headerGroup.id}>
                                         {headerGroup.headers.map((header) => (
-                                            <TableHead key={header.id} className="whitespace-nowrap px-2 py-2">
+                                            <TableHead
+                                                key={header.id}
+                                                className={cn("relative whitespace-nowrap px-2 py-2", pinnedColumnClass(header.column))}
+                                                style={{ width: header.getSize(), ...pinnedColumnStyle(header.column) }}
+                                            >
                                                 {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                                                {header.column.getCanResize() && (
+                                                    <div
+                                                        onMouseDown={header.getResizeHandler()}
+                                                        onTouchStart={header.getResizeHandler()}
+                                                        onDoubleClick={() => header.column.resetSize()}
+                                                        className={cn(
+                                                            "absolute right-0 top-0 h-full w-1 cursor-col-resize select-none touch-none hover:bg-primary/50",
+                                                            header.column.getIsResizing() && "bg-primary"
+                                                        )}
+                                                        role="separator"
+                                                        aria-label={`Resize ${header.column.id}`}
+                                                        title="Drag to resize, double-click to reset"
+                                                    />
+                                                )}
                                             </TableHead>
                                         ))}
                                     </TableRow>
                                 ))}
                             </TableHeader>
                             <TableBody>
-                               {table.getRowModel().rows?.length ? (
-                                  table.getRowModel().rows.map((row) => (
-                                    <TableRow 
-                                        key={row.id} 
-                                        data-state={row.getIsSelected() && "selected"}
-                                        className="hover:bg-muted/50"
-                                    >
-                                        {row.getVisibleCells().map((cell) => (
-                                            <TableCell key={cell.id} className="text-xs px-2 py-1">
-                                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                                            </TableCell>
-                                        ))}
-                                    </TableRow>
-                                  ))
+                               {rows.length ? (
+                                  <>
+                                    {paddingTop > 0 && <tr><td colSpan={columns.length} style={{ height: paddingTop }} /></tr>}
+                                    {virtualRows.map((virtualRow) => {
+                                      const row = rows[virtualRow.index];
+                                      return (
+                                        <TableRow 
+                                            key={row.id} 
+                                            data-index={virtualRow.index}
+                                            ref={rowVirtualizer.measureElement}
+                                            data-state={row.getIsSelected() && "selected"}
+                                            className="hover:bg-muted/50"
+                                        >
+                                            {row.getVisibleCells().map((cell) => {
+                                                const formatting = cellFormatting(row.original, cell.column.id, conditionalFormats[cell.column.id], formatRanges[cell.column.id]);
+                                                const content = flexRender(cell.column.columnDef.cell, cell.getContext());
+                                                const delta = formatting?.delta;
+                                                const DeltaIcon = delta?.direction === 'up' ? ArrowUp : delta?.direction === 'down' ? ArrowDown : Minus;
+                                                return (
+                                                    <TableCell
+                                                        key={cell.id}
+                                                        className={cn("text-xs px-2 py-1 overflow-hidden text-ellipsis", pinnedColumnClass(cell.column))}
+                                                        style={{ ...pinnedColumnStyle(cell.column), backgroundImage: formatting ? cellBackgroundImage(formatting) : undefined }}
+                                                    >
+                                                        {delta ? (
+                                                            <div className="flex items-center gap-1">
+                                                                <DeltaIcon className={cn(
+                                                                    "h-3 w-3 shrink-0",
+                                                                    delta.isGood === null ? "text-muted-foreground" : delta.isGood ? "text-green-700 dark:text-green-400" : "text-destructive"
+                                                                )} />
+                                                                <div className="min-w-0 flex-1">{content}</div>
+                                                            </div>
+                                                        ) : content}
+                                                    </TableCell>
+                                                );
+                                            })}
+                                        </TableRow>
+                                      );
+                                    })}
+                                    {paddingBottom > 0 && <tr><td colSpan={columns.length} style={{ height: paddingBottom }} /></tr>}
+                                  </>
                                 ) : (
                                   <TableRow>
                                     <TableCell colSpan={columns.length} className="h-24 text-center">
@@ -306,17 +805,86 @@ const TableViewer: React.FC<TableViewerProps> = ({ result, currentIndex, totalCo
                                   </TableRow>
                                 )}
                             </TableBody>
+                            {footerTotals && rows.length > 0 && (
+                                <TableFooter className="sticky bottom-0 bg-muted">
+                                    <TableRow>
+                                        {table.getVisibleLeafColumns().map((column, index) => {
+                                            const total = footerTotals[column.id];
+                                            return (
+                                                <TableCell
+                                                    key={column.id}
+                                                    className={cn("text-xs px-2 py-1 font-semibold overflow-hidden text-ellipsis", pinnedColumnClass(column), column.getIsPinned() && "bg-muted")}
+                                                    style={pinnedColumnStyle(column)}
+                                                    title={total ? `${total.aggregation === 'avg' ? 'Average' : 'Sum'} of ${rows.length.toLocaleString()}${isFiltered ? ' filtered' : ''} rows` : undefined}
+                                                >
+                                                    {total
+                                                        ? <div className="whitespace-nowrap text-right tabular-nums">{formatCell(total.value, columnProfiles[column.id])}</div>
+                                                        : index === 1 && 'Total'}
+                                                </TableCell>
+                                            );
+                                        })}
+                                    </TableRow>
+                                </TableFooter>
+                            )}
                         </Table>
                     </div>
                 ) : showNoData ? (
                     <p className="text-muted-foreground italic flex-grow flex items-center justify-center">Query executed successfully, but returned no data.</p>
                 ) : null }
 
+                 {/* Results sent by reference: how much is loaded, and sorting only covers those rows */}
+                 {showTable && paging && (
+                    <div className='mt-2 flex items-center gap-2 text-xs text-muted-foreground flex-shrink-0'>
+                        <span>
+                            {data.length.toLocaleString()} of {paging.totalRows.toLocaleString()} rows loaded
+                            {paging.nextCursor && (sorting.length > 0 || isFiltered || pivot) && ` (sorting${pivot ? ', filters and the pivot' : ' and filters'} apply to loaded rows)`}
+                        </span>
+                        {isLoadingMore && <Loader2 className="h-3 w-3 animate-spin" />}
+                        {loadMoreError && (
+                            <>
+                                <span className="text-destructive">{loadMoreError}</span>
+                                <Button variant="outline" size="sm" onClick={() => { requestedCursorRef.current = null; setLoadMoreError(null); }}>
+                                    Retry
+                                </Button>
+                            </>
+                        )}
+                    </div>
+                 )}
+
                  {result && !showLoadingPlaceholder && !showInitialPlaceholder && (
-                    <details className='mt-3 text-xs flex-shrink-0'> 
-                        <summary className='cursor-pointer text-muted-foreground hover:text-foreground transition-colors'>Show Query</summary>
-                        <pre className='text-xs bg-muted p-2 rounded mt-1 whitespace-pre-wrap font-mono'>{result.query}</pre>
-                    </details>
+                    isEditingQuery && onRunEditedQuery ? (
+                        <div className='mt-3 text-xs flex-shrink-0'>
+                            <p className='text-muted-foreground'>Edit Query</p>
+                            <QueryEditor initialQuery={result.query} onRun={onRunEditedQuery} onClose={() => setIsEditingQuery(false)} />
+                        </div>
+                    ) : (
+                        <details className='mt-3 text-xs flex-shrink-0'> 
+                            <summary className='cursor-pointer text-muted-foreground hover:text-foreground transition-colors'>
+                                Show Query{result.edits && result.edits.length > 0 && ` (edited ${result.edits.length}×)`}
+                            </summary>
+                            <pre className='text-xs bg-muted p-2 rounded mt-1 whitespace-pre-wrap font-mono'>{result.query}</pre>
+                            {onRunEditedQuery && (
+                                <Button variant="outline" size="sm" className="mt-1" onClick={() => setIsEditingQuery(true)}>
+                                    Edit Query
+                                </Button>
+                            )}
+                            {/* Audit trail of hand edits, oldest first */}
+                            {result.edits?.map((edit, index) => (
+                                <div key={index} className='mt-2'>
+                                    <p className='text-muted-foreground'>
+                                        Edited {new Date(edit.editedAt).toLocaleString()}{edit.editedBy && ` by ${edit.editedBy}`}
+                                    </p>
+                                    <pre className='bg-muted p-2 rounded mt-1 whitespace-pre-wrap font-mono'>
+                                        {edit.diff.split('\n').map((line, lineIndex) => (
+                                            <div key={lineIndex} className={line.startsWith('+') ? 'text-green-700 dark:text-green-400' : line.startsWith('-') ? 'text-destructive' : undefined}>
+                                                {line}
+                                            </div>
+                                        ))}
+                                    </pre>
+                                </div>
+                            ))}
+                        </details>
+                    )
                  )}
             </CardContent>
 
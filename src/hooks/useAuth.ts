@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AuthUser } from '@/lib/auth/types';
+import { fetchSessionUser, redirectToLogin, signOut as requestSignOut } from '@/lib/auth/client';
+
+// The signed-in user for the UI. Pages are only served with a session (see middleware),
+// so a missing user here means the session expired while the page was open.
+export function useAuth() {
+  const [user, setUser] = useState<AuthUser | null>(null);
+
+  useEffect(() => {
+    fetchSessionUser()
+      .then(sessionUser => {
+        if (sessionUser) setUser(sessionUser);
+        else redirectToLogin();
+      })
+      .catch(error => console.error('[useAuth] Failed to load the session:', error));
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await requestSignOut();
+    } catch (error) {
+      console.error('[useAuth] Failed to sign out:', error);
+    }
+    window.location.assign('/login');
+  }, []);
+
+  return { user, signOut };
+}
@@ -0,0 +1,152 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ConversationSnapshot } from '@/lib/chat/reducer';
+import { ChatMessage } from '@/lib/chat/types';
+import {
+  ConversationRecord,
+  ConversationSummary,
+  getConversationStore,
+  sortByRecent,
+  toSummary,
+} from '@/lib/conversations';
+
+// Wait for a pause in updates (e.g. streamed deltas) before writing the conversation
+const AUTOSAVE_DELAY_MS = 800;
+const MAX_TITLE_LENGTH = 60;
+
+// Title a new conversation after its first question
+const deriveTitle = (messages: ChatMessage[]): string => {
+  const firstQuestion = messages.find(m => m.role === 'user')?.content.trim();
+  if (!firstQuestion) return 'New conversation';
+  return firstQuestion.length > MAX_TITLE_LENGTH ? `${firstQuestion.slice(0, MAX_TITLE_LENGTH - 1)}…` : firstQuestion;
+};
+
+export function useConversations(
+  conversation: ConversationSnapshot,
+  loadConversation: (snapshot: ConversationSnapshot) => void,
+  startNewConversation: () => void,
+  userId: string | undefined // History is per user; nothing is listed or saved until the session is known
+) {
+  const store = useMemo(() => userId ? getConversationStore(userId) : null, [userId]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  // Latest summaries, read by the autosave timer without re-arming it
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+  // Set while a reopened conversation is applied, so opening it doesn't count as an edit
+  const pendingLoadRef = useRef<string | null>(null);
+  // Writes the latest unsaved change; set while the autosave timer is running
+  const pendingSaveRef = useRef<(() => Promise<void>) | null>(null);
+
+  const flushPendingSave = useCallback(() => {
+    const save = pendingSaveRef.current;
+    pendingSaveRef.current = null;
+    if (save) void save();
+  }, []);
+
+  useEffect(() => {
+    if (!store) return;
+    store.list()
+      .then(setConversations)
+      .catch(error => console.error('[useConversations] Failed to list conversations:', error));
+  }, [store]);
+
+  // --- Autosave the current conversation ---
+  useEffect(() => {
+    const { conversationId } = conversation;
+    if (!conversationId || !store) return;
+    if (pendingLoadRef.current === conversationId) {
+      pendingLoadRef.current = null;
+      return;
+    }
+
+    pendingSaveRef.current = async () => {
+      const existing = conversationsRef.current.find(c => c.id === conversationId);
+      const now = new Date().toISOString();
+      const record: ConversationRecord = {
+        id: conversationId,
+        title: existing?.title ?? deriveTitle(conversation.messages),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        messages: conversation.messages,
+        runs: conversation.runs,
+        activeRunId: conversation.activeRunId,
+        nextMessageSeq: conversation.nextMessageSeq,
+      };
+      try {
+        await store.save(record);
+        setConversations(prev => sortByRecent([toSummary(record), ...prev.filter(c => c.id !== conversationId)]));
+      } catch (error) {
+        console.error('[useConversations] Failed to save conversation:', error);
+      }
+    };
+    // A newer change to the same conversation restarts the timer and replaces the pending save
+    const handle = setTimeout(flushPendingSave, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(handle);
+  }, [conversation, store, flushPendingSave]);
+
+  // Switching, loading or starting a conversation, unmounting or leaving the page
+  // writes the last change right away instead of dropping it with the timer
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      flushPendingSave();
+    };
+  }, [conversation.conversationId, flushPendingSave]);
+
+  const openConversation = useCallback(async (id: string) => {
+    if (!store || id === conversation.conversationId) return;
+    try {
+      const record = await store.get(id);
+      if (!record) {
+        console.warn(`[useConversations] Conversation ${id} no longer exists.`);
+        setConversations(prev => prev.filter(c => c.id !== id));
+        return;
+      }
+      pendingLoadRef.current = record.id;
+      loadConversation({
+        conversationId: record.id,
+        messages: record.messages,
+        runs: record.runs,
+        activeRunId: record.activeRunId,
+        nextMessageSeq: record.nextMessageSeq,
+      });
+    } catch (error) {
+      console.error('[useConversations] Failed to open conversation:', error);
+    }
+  }, [conversation.conversationId, loadConversation, store]);
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    const trimmedTitle = title.trim();
+    if (!store || !trimmedTitle) return;
+    try {
+      await store.rename(id, trimmedTitle);
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, title: trimmedTitle } : c));
+    } catch (error) {
+      console.error('[useConversations] Failed to rename conversation:', error);
+    }
+  }, [store]);
+
+  const deleteConversation = useCallback(async (id: string) => {
+    if (!store) return;
+    // Flushing the deleted conversation's last change would bring it back
+    if (id === conversation.conversationId) pendingSaveRef.current = null;
+    try {
+      await store.remove(id);
+      setConversations(prev => prev.filter(c => c.id !== id));
+      if (id === conversation.conversationId) {
+        startNewConversation();
+      }
+    } catch (error) {
+      console.error('[useConversations] Failed to delete conversation:', error);
+    }
+  }, [conversation.conversationId, startNewConversation, store]);
+
+  return {
+    conversations,
+    activeConversationId: conversation.conversationId,
+    openConversation,
+    renameConversation,
+    deleteConversation,
+    newConversation: startNewConversation,
+  };
+}
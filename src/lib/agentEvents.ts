@@ -0,0 +1,48 @@
+// Server-side helpers for reading the agent's Server-Sent Events stream,
+// shared by the /api/frontend/events proxy and its long-poll counterpart.
+
+/**
+ * Resolves the agent's event stream endpoint (defaults to <AGENT_API_URL>/events)
+ * for the signed-in user and forwards the browser's resume position.
+ */
+export function buildAgentEventsUrl(userId: string, searchParams: URLSearchParams): string | undefined {
+  const agentApiUrl = process.env.AGENT_API_URL;
+  const agentEventsUrl = process.env.AGENT_EVENTS_URL || (agentApiUrl ? `${agentApiUrl.replace(/\/$/, '')}/events` : undefined);
+  if (!agentEventsUrl) return undefined;
+
+  const url = new URL(agentEventsUrl);
+  // The session is always the authenticated user's, whatever user_id the browser asked for
+  url.searchParams.set('user_id', userId);
+  const lastSeq = searchParams.get('last_seq');
+  if (lastSeq) url.searchParams.set('last_seq', lastSeq);
+  return url.toString();
+}
+
+/**
+ * Reads an SSE body until it ends (or its request is aborted), calling `onData`
+ * with the `data:` payload of every event.
+ */
+export async function readSseEvents(body: ReadableStream<Uint8Array>, onData: (data: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushEvent = (block: string) => {
+    const dataLines = block
+      .split(/\r?\n/)
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''));
+    if (dataLines.length > 0) onData(dataLines.join('\n'));
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    // Events are separated by a blank line
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = blocks.pop() ?? '';
+    blocks.forEach(flushEvent);
+  }
+  if (buffer.trim()) flushEvent(buffer);
+}
@@ -0,0 +1,102 @@
+// Server-side helpers for calling the Python agent from the /api/frontend routes:
+// per-attempt timeouts, bounded retries with backoff and a typed error envelope.
+import { NextResponse } from 'next/server';
+import { ApiErrorCode, ApiErrorEnvelope } from '@/lib/apiErrors';
+import { readIntEnv } from '@/lib/env';
+
+// Overridable per deployment; the agent can take a while to classify a question
+const AGENT_TIMEOUT_MS = readIntEnv('AGENT_REQUEST_TIMEOUT_MS', 30000);
+const AGENT_MAX_RETRIES = readIntEnv('AGENT_REQUEST_RETRIES', 2);
+const RETRY_BASE_DELAY_MS = 500;
+
+export class AgentProxyError extends Error {
+  constructor(
+    public readonly code: ApiErrorCode,
+    message: string,
+    public readonly status: number,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'AgentProxyError';
+  }
+}
+
+interface AgentRequestOptions {
+  idempotencyKey?: string; // Lets the agent drop duplicates when a retried request had already arrived
+  authToken?: string; // Signed identity of the signed-in user, verifiable by the agent
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * POSTs JSON to the agent. Connection errors and 5xx responses are retried with
+ * exponential backoff; timeouts and 4xx responses are not. Resolves with the
+ * first OK response, otherwise throws an AgentProxyError.
+ */
+export async function postToAgent(url: string, payload: unknown, options: AgentRequestOptions = {}): Promise<Response> {
+  const { idempotencyKey, authToken, timeoutMs = AGENT_TIMEOUT_MS, maxRetries = AGENT_MAX_RETRIES } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) {
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+      console.warn(`Retrying agent request to ${url} in ${delay}ms (attempt ${attempt + 1} of ${maxRetries + 1})`);
+      await sleep(delay);
+    }
+    const isLastAttempt = attempt >= maxRetries;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+          ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new AgentProxyError('agent_timeout', `The agent did not respond within ${timeoutMs / 1000}s.`, 504, true);
+      }
+      console.error(`Agent request to ${url} failed:`, error);
+      if (isLastAttempt) {
+        throw new AgentProxyError('agent_unreachable', 'Could not connect to the agent.', 502, true);
+      }
+      continue;
+    }
+
+    if (response.ok) return response;
+
+    const errorText = await response.text().catch(() => '');
+    console.error(`Error from agent API: ${response.status} ${errorText}`);
+    if (response.status < 500) {
+      throw new AgentProxyError('agent_rejected', errorText || `The agent rejected the request (HTTP ${response.status}).`, response.status, false);
+    }
+    if (isLastAttempt) {
+      throw new AgentProxyError('agent_unavailable', errorText || `The agent is unavailable (HTTP ${response.status}).`, 502, true);
+    }
+  }
+}
+
+export function errorResponse(code: ApiErrorCode, message: string, status: number, retryable = false, retryAfterSeconds?: number) {
+  if (retryAfterSeconds === undefined) {
+    return NextResponse.json<ApiErrorEnvelope>({ error: { code, message, retryable } }, { status });
+  }
+  return NextResponse.json<ApiErrorEnvelope>(
+    { error: { code, message, retryable, retryAfterSeconds } },
+    { status, headers: { 'Retry-After': String(retryAfterSeconds) } }
+  );
+}
+
+// Maps anything thrown in a route handler to the error envelope
+export function toErrorResponse(error: unknown) {
+  if (error instanceof AgentProxyError) {
+    return errorResponse(error.code, error.message, error.status, error.retryable);
+  }
+  const message = error instanceof Error ? error.message : 'Internal Server Error';
+  return errorResponse('internal_error', `An unexpected error occurred: ${message}`, 500, true);
+}
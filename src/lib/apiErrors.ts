@@ -0,0 +1,48 @@
+// Stable error envelope returned by the /api/frontend routes that proxy the agent.
+// `retryable` tells the UI whether sending the same request again may succeed.
+
+export type ApiErrorCode =
+  | 'bad_request' // The frontend sent an invalid request
+  | 'unauthorized' // No valid session; the user has to sign in (again)
+  | 'not_found' // No such resource for this user (e.g. a conversation)
+  | 'rate_limited' // Too many requests; retry after retryAfterSeconds
+  | 'payload_too_large' // Message or staged context exceeds the server limits
+  | 'not_configured' // The agent URL is missing on the server
+  | 'agent_timeout' // The agent did not answer in time
+  | 'agent_unreachable' // Connection to the agent failed
+  | 'agent_unavailable' // The agent kept answering with 5xx errors
+  | 'agent_rejected' // The agent refused the request (4xx)
+  | 'internal_error';
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  retryAfterSeconds?: number; // Set with rate_limited
+}
+
+export interface ApiErrorEnvelope {
+  error: ApiError;
+}
+
+const isApiError = (value: unknown): value is ApiError =>
+  typeof value === 'object' && value !== null &&
+  typeof (value as ApiError).code === 'string' &&
+  typeof (value as ApiError).message === 'string' &&
+  typeof (value as ApiError).retryable === 'boolean';
+
+/**
+ * Reads the error envelope from a failed response. Responses that don't carry one
+ * (e.g. a gateway error page) are reported as retryable for 5xx statuses only.
+ */
+export async function readApiError(response: Response): Promise<ApiError> {
+  const body = await response.json().catch(() => null);
+  if (isApiError(body?.error)) return body.error;
+  const retryAfterSeconds = Number.parseInt(response.headers.get('Retry-After') ?? '', 10);
+  return {
+    code: response.status === 429 ? 'rate_limited' : response.status >= 500 ? 'internal_error' : 'bad_request',
+    message: typeof body?.error === 'string' ? body.error : `HTTP error ${response.status}`,
+    retryable: response.status >= 500 || response.status === 429,
+    ...(Number.isFinite(retryAfterSeconds) ? { retryAfterSeconds } : {}),
+  };
+}
@@ -0,0 +1,43 @@
+// Browser-side helpers for the /api/auth routes
+import { ApiError, readApiError } from '@/lib/apiErrors';
+import { AuthUser } from '@/lib/auth/types';
+
+// Send the user to the login page, coming back here afterwards
+export function redirectToLogin(): void {
+  const next = `${window.location.pathname}${window.location.search}`;
+  window.location.assign(`/login?next=${encodeURIComponent(next)}`);
+}
+
+export async function signIn(username: string, password: string): Promise<{ user: AuthUser } | { error: ApiError }> {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  if (!response.ok) return { error: await readApiError(response) };
+  return response.json();
+}
+
+export async function signOut(): Promise<void> {
+  await fetch('/api/auth/logout', { method: 'POST' });
+}
+
+export async function fetchSessionUser(): Promise<AuthUser | null> {
+  const response = await fetch('/api/auth/session');
+  if (!response.ok) return null;
+  const { user } = await response.json();
+  return user;
+}
+
+// Short-lived token proving the user's identity to the agent's WebSocket
+export async function fetchAgentToken(): Promise<string> {
+  const response = await fetch('/api/auth/token', { cache: 'no-store' });
+  if (response.status === 401) {
+    redirectToLogin();
+  }
+  if (!response.ok) {
+    throw new Error(`Could not get an agent token: ${(await readApiError(response)).message}`);
+  }
+  const { token } = await response.json();
+  return token;
+}
@@ -0,0 +1,18 @@
+import { localAuthProvider } from '@/lib/auth/localProvider';
+import { AuthProvider } from '@/lib/auth/types';
+
+export * from '@/lib/auth/types';
+
+// Register further providers (e.g. an OIDC bridge) here and select them with AUTH_PROVIDER
+const authProviders: Record<string, AuthProvider> = {
+  [localAuthProvider.id]: localAuthProvider,
+};
+
+export function getAuthProvider(): AuthProvider {
+  const providerId = process.env.AUTH_PROVIDER || localAuthProvider.id;
+  const provider = authProviders[providerId];
+  if (!provider) {
+    throw new Error(`Unknown AUTH_PROVIDER "${providerId}".`);
+  }
+  return provider;
+}
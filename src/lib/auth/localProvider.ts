@@ -0,0 +1,29 @@
+import { AuthProvider } from '@/lib/auth/types';
+
+// Development stand-in for a real identity provider. Accounts come from
+// AUTH_LOCAL_USERS ("alice:secret,bob:hunter2"); outside production, dev/dev works when unset.
+const loadAccounts = (): Map<string, string> => {
+  const configured = process.env.AUTH_LOCAL_USERS;
+  if (!configured) {
+    return process.env.NODE_ENV === 'production' ? new Map() : new Map([['dev', 'dev']]);
+  }
+  return new Map(
+    configured
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.includes(':'))
+      .map(entry => {
+        const separatorIndex = entry.indexOf(':');
+        return [entry.slice(0, separatorIndex), entry.slice(separatorIndex + 1)] as [string, string];
+      })
+  );
+};
+
+export const localAuthProvider: AuthProvider = {
+  id: 'local',
+  async authenticate({ username, password }) {
+    const expectedPassword = loadAccounts().get(username);
+    if (expectedPassword === undefined || expectedPassword !== password) return null;
+    return { id: `local:${username}`, name: username };
+  },
+};
@@ -0,0 +1,79 @@
+// Signed session tokens (HMAC-SHA256 via Web Crypto, so they verify in middleware too).
+// The same format is used for the session cookie and for the short-lived tokens
+// the agent receives, so the agent can verify identities with the shared AUTH_SECRET.
+import { AuthUser } from '@/lib/auth/types';
+
+export const SESSION_COOKIE = 'insight-assistant.session';
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+// Tokens handed to the agent only need to outlive a single connection handshake or request
+export const AGENT_TOKEN_TTL_SECONDS = 60;
+
+interface TokenPayload {
+  sub: string;
+  name: string;
+  exp: number; // Unix seconds
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) =>
+  Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+let hasWarnedAboutSecret = false;
+
+const getSigningKey = () => {
+  let secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_SECRET environment variable is not set.');
+    }
+    if (!hasWarnedAboutSecret) {
+      console.warn('AUTH_SECRET is not set; using an insecure development secret.');
+      hasWarnedAboutSecret = true;
+    }
+    secret = 'insecure-development-secret';
+  }
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+export async function createSessionToken(user: AuthUser, ttlSeconds = SESSION_TTL_SECONDS): Promise<string> {
+  const payload: TokenPayload = { sub: user.id, name: user.name, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const encodedPayload = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(encodedPayload));
+  return `${encodedPayload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+// Returns the user for a valid, unexpired token, or null
+export async function verifySessionToken(token: string | undefined): Promise<AuthUser | null> {
+  if (!token) return null;
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+  try {
+    const isValid = await crypto.subtle.verify(
+      'HMAC', await getSigningKey(), fromBase64Url(encodedSignature), encoder.encode(encodedPayload)
+    );
+    if (!isValid) return null;
+    const payload = JSON.parse(decoder.decode(fromBase64Url(encodedPayload))) as Partial<TokenPayload>;
+    if (typeof payload.sub !== 'string' || typeof payload.name !== 'string' || typeof payload.exp !== 'number') return null;
+    if (payload.exp * 1000 < Date.now()) return null;
+    return { id: payload.sub, name: payload.name };
+  } catch {
+    return null; // Not base64 / not JSON: treat like a bad signature
+  }
+}
+
+// Reads the signed-in user from a route handler or middleware request
+export const getSessionUser = (request: { cookies: { get(name: string): { value: string } | undefined } }) =>
+  verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: SESSION_TTL_SECONDS,
+};
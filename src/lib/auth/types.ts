@@ -0,0 +1,16 @@
+// The signed-in user. `id` is what the agent sees as user_id.
+export interface AuthUser {
+  id: string;
+  name: string;
+}
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+// Verifies credentials against an identity backend (local accounts, SSO bridge, ...)
+export interface AuthProvider {
+  id: string;
+  authenticate(credentials: LoginCredentials): Promise<AuthUser | null>;
+}
@@ -0,0 +1,24 @@
+import { ChatAttachment } from '@/lib/chat/types';
+
+const MAX_LABEL_LENGTH = 40;
+
+export const generateAttachmentId = () => `att_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+
+const truncate = (text: string) =>
+  text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+
+// Short label shown on an attachment chip
+export function describeAttachment(attachment: ChatAttachment): string {
+  switch (attachment.kind) {
+    case 'table_rows':
+      return `${attachment.rows.length} row${attachment.rows.length === 1 ? '' : 's'} · ${truncate(attachment.objective)}`;
+    case 'query_result':
+      return attachment.filters?.length
+        ? `Filtered table (${attachment.rows.length}) · ${truncate(attachment.objective)}`
+        : `Table · ${truncate(attachment.objective)}`;
+    case 'chart':
+      return `Chart · ${truncate(attachment.title)}`;
+    case 'text':
+      return truncate(attachment.text);
+  }
+}
@@ -0,0 +1,304 @@
+// Typed WebSocket protocol between the Python agent and the chat UI.
+// Every inbound frame is validated at runtime before it reaches useChat,
+// so the rest of the frontend can rely on the discriminated union below.
+
+export interface GeneratedQuery {
+  objective: string;
+  query: string;
+}
+
+// Large results are sent by reference: the frame carries the first page in `data`
+// and a handle to page through the rest via /api/frontend/results/[id]
+export interface ResultHandle {
+  id: string;
+  total_rows: number;
+  next_cursor?: string | null; // Absent or null once every row has been sent
+}
+
+export interface ExecutedQuery {
+  platform?: string;
+  objective?: string;
+  query?: string;
+  data?: Record<string, unknown>[];
+  result_handle?: ResultHandle;
+}
+
+export interface ReportSection {
+  title: string;
+  content: string;
+}
+
+// The actual structure received from backend for graph suggestions
+// (it differs from the frontend GraphSuggestion type, e.g. uses 'columns')
+export interface BackendGraphSuggestionFormat {
+  objective: string;
+  type?: string;
+  title?: string;
+  description?: string;
+  columns?: {
+    x?: string;
+    y?: string | string[];
+    [key: string]: unknown; // Allow other fields within columns
+  };
+  [key: string]: unknown; // Allow other top-level properties from backend
+}
+
+// --- One interface per frame type ---
+
+// Every frame may carry a per-session sequence number, used to resume after a reconnect
+interface FrameEnvelope {
+  seq?: number;
+}
+
+// Frames produced by an agent workflow carry the run ID the frontend sent with the request.
+// Older agents omit it; such frames are attributed to the active run.
+interface RunScopedFrame extends FrameEnvelope {
+  run_id?: string;
+}
+
+export interface ConnectionEstablishedMessage extends FrameEnvelope {
+  type: 'connection_established';
+  user_id: string;
+  resumed?: boolean; // True when the agent reattached an existing session and will replay missed frames
+}
+
+export interface StatusMessage extends RunScopedFrame {
+  type: 'status';
+  step: string;
+  status: string;
+  details?: string;
+  generated_queries?: GeneratedQuery[]; // Sent when query generation completes
+}
+
+export interface ReasoningSummaryMessage extends RunScopedFrame {
+  type: 'reasoning_summary';
+  step: string;
+  reasoning: string;
+}
+
+export interface FinalInsightMessage extends RunScopedFrame {
+  type: 'final_insight';
+  step?: string;
+  insight?: string;
+  reasoning?: string;
+  graph_suggestions?: BackendGraphSuggestionFormat[];
+  executed_queries?: ExecutedQuery[]; // Combined results for multi-platform insights
+}
+
+export interface FinalRecommendationMessage extends RunScopedFrame {
+  type: 'final_recommendation';
+  step?: string;
+  report_sections?: ReportSection[];
+  reasoning?: string;
+  graph_suggestions?: BackendGraphSuggestionFormat[];
+  executed_queries?: ExecutedQuery[];
+}
+
+export interface QueryResultMessage extends RunScopedFrame {
+  type: 'query_result';
+  objective?: string;
+  query?: string;
+  data?: Record<string, unknown>[];
+  error?: string; // Query execution error
+  platform?: string;
+  result_handle?: ResultHandle;
+}
+
+export interface ClassifierAnswerMessage extends RunScopedFrame {
+  type: 'classifier_answer';
+  content: string;
+}
+
+export interface ClassifierInfoMessage extends RunScopedFrame {
+  type: 'classifier_info';
+  content: string;
+}
+
+// Streamed assistant text. Deltas with the same stream_id append to one in-progress
+// message; stream_id defaults to the frame kind ('insight' / 'answer').
+export interface InsightDeltaMessage extends RunScopedFrame {
+  type: 'insight_delta';
+  delta: string;
+  stream_id?: string;
+  step?: string;
+}
+
+export interface AnswerDeltaMessage extends RunScopedFrame {
+  type: 'answer_delta';
+  delta: string;
+  stream_id?: string;
+}
+
+// Seals an in-progress stream. Without stream_id, every open stream of the run is sealed.
+export interface StreamEndMessage extends RunScopedFrame {
+  type: 'stream_end';
+  stream_id?: string;
+  content?: string; // Authoritative full text, replaces the concatenated deltas
+}
+
+export interface RoutingDecisionMessage extends RunScopedFrame {
+  type: 'routing_decision';
+  step?: string;
+  workflow_type?: string;
+  requires_execution?: boolean; // For workflows that might not need query execution
+  classification_details?: Record<string, unknown>;
+}
+
+export interface ErrorMessage extends RunScopedFrame {
+  type: 'error';
+  message: string;
+  step?: string;
+  details?: string;
+}
+
+export type WebSocketMessage =
+  | ConnectionEstablishedMessage
+  | StatusMessage
+  | ReasoningSummaryMessage
+  | FinalInsightMessage
+  | FinalRecommendationMessage
+  | QueryResultMessage
+  | ClassifierAnswerMessage
+  | ClassifierInfoMessage
+  | InsightDeltaMessage
+  | AnswerDeltaMessage
+  | StreamEndMessage
+  | RoutingDecisionMessage
+  | ErrorMessage;
+
+export type WebSocketMessageType = WebSocketMessage['type'];
+
+export type ParseResult =
+  | { ok: true; message: WebSocketMessage }
+  // 'unknown_type' frames are well-formed but not part of this protocol version
+  | { ok: false; reason: 'malformed' | 'unknown_type'; error: string; raw: unknown };
+
+// --- Minimal runtime validators ---
+
+type Validator = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString: Validator = value => typeof value === 'string';
+const isBoolean: Validator = value => typeof value === 'boolean';
+const isNumber: Validator = value => typeof value === 'number' && Number.isFinite(value);
+const arrayOf = (item: Validator): Validator => value => Array.isArray(value) && value.every(item);
+const shape = (fields: Record<string, Validator>): Validator => value =>
+  isRecord(value) && Object.entries(fields).every(([key, validate]) => validate(value[key]));
+const optional = (validate: Validator): Validator => value => value === undefined || validate(value);
+
+const generatedQuery = shape({ objective: isString, query: isString });
+const resultHandle = shape({
+  id: isString,
+  total_rows: isNumber,
+  next_cursor: value => value === undefined || value === null || isString(value),
+});
+const executedQuery = shape({
+  platform: optional(isString),
+  objective: optional(isString),
+  query: optional(isString),
+  data: optional(arrayOf(isRecord)),
+  result_handle: optional(resultHandle),
+});
+const reportSection = shape({ title: isString, content: isString });
+
+// Required/optional fields per frame type. Keep in sync with the interfaces above.
+const messageSchemas: Record<WebSocketMessageType, Record<string, Validator>> = {
+  connection_established: { user_id: isString, resumed: optional(isBoolean) },
+  status: {
+    step: isString,
+    status: isString,
+    details: optional(isString),
+    generated_queries: optional(arrayOf(generatedQuery)),
+  },
+  reasoning_summary: { step: isString, reasoning: isString },
+  final_insight: {
+    step: optional(isString),
+    insight: optional(isString),
+    reasoning: optional(isString),
+    graph_suggestions: optional(arrayOf(isRecord)),
+    executed_queries: optional(arrayOf(executedQuery)),
+  },
+  final_recommendation: {
+    step: optional(isString),
+    report_sections: optional(arrayOf(reportSection)),
+    reasoning: optional(isString),
+    graph_suggestions: optional(arrayOf(isRecord)),
+    executed_queries: optional(arrayOf(executedQuery)),
+  },
+  query_result: {
+    objective: optional(isString),
+    query: optional(isString),
+    data: optional(arrayOf(isRecord)),
+    error: optional(isString),
+    platform: optional(isString),
+    result_handle: optional(resultHandle),
+  },
+  classifier_answer: { content: isString },
+  classifier_info: { content: isString },
+  insight_delta: { delta: isString, stream_id: optional(isString), step: optional(isString) },
+  answer_delta: { delta: isString, stream_id: optional(isString) },
+  stream_end: { stream_id: optional(isString), content: optional(isString) },
+  routing_decision: {
+    step: optional(isString),
+    workflow_type: optional(isString),
+    requires_execution: optional(isBoolean),
+    classification_details: optional(isRecord),
+  },
+  error: { message: isString, step: optional(isString), details: optional(isString) },
+};
+
+const isKnownType = (type: string): type is WebSocketMessageType =>
+  Object.prototype.hasOwnProperty.call(messageSchemas, type);
+
+/**
+ * Validates a decoded WebSocket frame against the protocol.
+ * `null` fields (Python `None`) are treated as absent.
+ */
+export function parseWebSocketMessage(raw: unknown): ParseResult {
+  if (!isRecord(raw)) {
+    return { ok: false, reason: 'malformed', error: 'Frame is not a JSON object.', raw };
+  }
+  if (typeof raw.type !== 'string') {
+    return { ok: false, reason: 'malformed', error: 'Frame is missing a string "type" field.', raw };
+  }
+  if (!isKnownType(raw.type)) {
+    return { ok: false, reason: 'unknown_type', error: `Unknown frame type "${raw.type}".`, raw };
+  }
+
+  const frame = Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== null));
+  const schema = raw.type === 'connection_established'
+    ? { ...messageSchemas[raw.type], seq: optional(isNumber) }
+    : { ...messageSchemas[raw.type], seq: optional(isNumber), run_id: optional(isString) };
+  const invalidFields = Object.entries(schema)
+    .filter(([key, validate]) => !validate(frame[key]))
+    .map(([key]) => key);
+
+  if (invalidFields.length > 0) {
+    return {
+      ok: false,
+      reason: 'malformed',
+      error: `Invalid "${raw.type}" frame: bad or missing field(s) ${invalidFields.map(f => `"${f}"`).join(', ')}.`,
+      raw,
+    };
+  }
+  return { ok: true, message: frame as unknown as WebSocketMessage };
+}
+
+/**
+ * Decodes a raw text frame (WebSocket message, SSE or long-poll event) and validates it.
+ * Non-JSON payloads are reported as malformed rather than thrown.
+ */
+export function decodeFrame(data: unknown): ParseResult {
+  if (typeof data !== 'string') {
+    return { ok: false, reason: 'malformed', error: 'Frame is not a text frame.', raw: data };
+  }
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch {
+    return { ok: false, reason: 'malformed', error: 'Frame is not valid JSON.', raw: data };
+  }
+  return parseWebSocketMessage(raw);
+}
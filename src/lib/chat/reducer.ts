@@ -0,0 +1,538 @@
+// Pure state machine behind useChat. Every WebSocket frame and every
+// request lifecycle event is dispatched as an action, so frames are applied
+// one by one, in arrival order, without relying on React render timing.
+import {
+  BackendGraphSuggestionFormat,
+  ExecutedQuery,
+  GeneratedQuery,
+  ParseResult,
+  ResultHandle,
+  WebSocketMessage,
+} from '@/lib/chat/protocol';
+import { ChatAttachment, ChatMessage, DerivedColumn, GraphSuggestion, QueryResult, ResultPaging, RunState } from '@/lib/chat/types';
+import { applyTimelineFrame } from '@/lib/chat/timeline';
+
+export interface ChatState {
+  // User ID received from WebSocket connection
+  userId: string | null;
+  // Saved conversation this chat belongs to (null until the first message is sent)
+  conversationId: string | null;
+  // Main chat history (including milestones)
+  messages: ChatMessage[];
+  // Results and graph suggestions for the right-hand pane, keyed by run ID
+  runs: Record<string, RunState>;
+  // Run started by the most recent user message; only its frames drive the chat
+  activeRunId: string | null;
+  // Run whose tables and graphs the Data Explorer shows (follows the active run until a turn is picked)
+  viewedRunId: string | null;
+  // Live status update string
+  currentStatus: string | null;
+  isProcessing: boolean;
+  // Monotonic counter used to build message IDs deterministically
+  nextMessageSeq: number;
+  // Sequence number of the last applied frame of this session (null if the agent doesn't send any)
+  lastSeq: number | null;
+}
+
+export type ChatAction =
+  | { type: 'connection_opened' }
+  | { type: 'connection_lost'; status: string }
+  | { type: 'frame_received'; frame: ParseResult; receivedAt: number }
+  | { type: 'user_message_sent'; conversationId: string; runId: string; content: string; attachments: ChatAttachment[]; sentAt: number }
+  | { type: 'agent_acknowledged'; runId: string; response?: string; toolCalled: boolean }
+  | { type: 'request_failed'; error: string; runId?: string; retryAt?: number }
+  | { type: 'run_cancelled'; runId: string }
+  | { type: 'conversation_loaded'; conversation: ConversationSnapshot }
+  | { type: 'conversation_reset' }
+  | { type: 'run_selected'; runId: string }
+  | { type: 'query_result_edited'; runId: string; result: QueryResult; replaceIndex?: number }
+  | { type: 'result_page_loaded'; runId: string; handleId: string; rows: Record<string, unknown>[]; nextCursor?: string }
+  | { type: 'derived_columns_changed'; runId: string; resultIndex: number; derivedColumns: DerivedColumn[] }
+  | { type: 'system_message'; content: string };
+
+// The part of the chat state that is saved with a conversation
+export type ConversationSnapshot = Pick<ChatState, 'conversationId' | 'messages' | 'runs' | 'activeRunId' | 'nextMessageSeq'>;
+
+export const initialChatState: ChatState = {
+  userId: null,
+  conversationId: null,
+  messages: [
+    {
+      id: 'init_message',
+      role: 'system',
+      content: 'Hello! I am your Insight Assistant. Ask me to analyze your data or suggest optimizations.'
+    }
+  ],
+  runs: {},
+  activeRunId: null,
+  viewedRunId: null,
+  currentStatus: null,
+  isProcessing: false,
+  nextMessageSeq: 1,
+  lastSeq: null,
+};
+
+// --- Pure helpers ---
+
+// Append a message to the chat, allocating the next message ID
+export const appendMessage = (
+  state: ChatState,
+  role: ChatMessage['role'],
+  content: string,
+  additionalFields: Partial<ChatMessage> = {}
+): ChatState => ({
+  ...state,
+  messages: [...state.messages, { id: `msg_${state.nextMessageSeq}`, role, content, ...additionalFields }],
+  nextMessageSeq: state.nextMessageSeq + 1,
+});
+
+const finishProcessing = (state: ChatState): ChatState => ({ ...state, currentStatus: null, isProcessing: false });
+
+const updateRun = (state: ChatState, runId: string, update: (run: RunState) => RunState): ChatState => {
+  const run = state.runs[runId];
+  return run ? { ...state, runs: { ...state.runs, [runId]: update(run) } } : state;
+};
+
+export const createRun = (id: string, startedAt: number): RunState => ({
+  id, status: 'running', queryResults: [], graphSuggestions: [], startedAt, steps: [],
+});
+
+export const selectActiveRun = (state: ChatState): RunState | undefined =>
+  state.activeRunId ? state.runs[state.activeRunId] : undefined;
+
+export const selectViewedRun = (state: ChatState): RunState | undefined =>
+  state.viewedRunId ? state.runs[state.viewedRunId] : selectActiveRun(state);
+
+// Only the active, non-cancelled run may still change the conversation
+const isLiveRun = (state: ChatState, runId: string): boolean =>
+  runId === state.activeRunId && state.runs[runId]?.status !== 'cancelled';
+
+export const toResultPaging = (handle: ResultHandle | undefined): { paging: ResultPaging } | Record<string, never> =>
+  handle ? { paging: { handleId: handle.id, totalRows: handle.total_rows, ...(handle.next_cursor ? { nextCursor: handle.next_cursor } : {}) } } : {};
+
+// Convert executed_queries into separate table results. Returns null when the frame carries none.
+export const executedQueriesToResults = (executedQueries: ExecutedQuery[] | undefined): QueryResult[] | null => {
+  if (!executedQueries) return null;
+  // Entries without data are skipped
+  return executedQueries.flatMap((executedQuery, index) => executedQuery.data ? [{
+    objective: executedQuery.objective || `Executed Query ${index + 1}`,
+    query: executedQuery.query || 'N/A',
+    dataframe: executedQuery.data,
+    platform: executedQuery.platform,
+    ...toResultPaging(executedQuery.result_handle),
+  }] : []);
+};
+
+// Map the backend graph suggestion format ('columns') onto the frontend one (x_axis/y_axis)
+export const mapGraphSuggestions = (backendSuggestions: BackendGraphSuggestionFormat[] | undefined): GraphSuggestion[] =>
+  (backendSuggestions ?? []).map(bs => {
+    const { columns, ...restOfSuggestion } = bs;
+    const mapped: GraphSuggestion = {
+      ...restOfSuggestion, // Spread other properties like objective, type, title, description
+      objective: restOfSuggestion.objective || 'Unknown Objective', // Ensure objective is always present
+    };
+    if (columns?.x) {
+      mapped.x_axis = columns.x;
+    }
+    if (columns?.y) {
+      mapped.y_axis = columns.y;
+    }
+    return mapped;
+  });
+
+// Build the milestone for a completed step, or null for steps we don't surface
+export const milestoneForCompletedStep = (
+  step: string,
+  generatedQueries: GeneratedQuery[] | undefined
+): Pick<ChatMessage, 'content' | 'generatedQueries'> | null => {
+  if (step.includes('generate') && step.includes('queries') && generatedQueries) {
+    const queryNoun = generatedQueries.length === 1 ? 'query' : 'queries';
+    return {
+      content: `✅ Query Generation Finished (${generatedQueries.length} ${queryNoun})`,
+      generatedQueries,
+    };
+  }
+  if (step.includes('execute') && step.includes('queries')) {
+    return { content: '✅ Query Execution Finished' };
+  }
+  if (step.includes('classification')) {
+    return { content: '✅ Classification Finished' };
+  }
+  if (step.includes('generate') || step.includes('execute')) {
+    return { content: `✅ ${step.replace(/_/g, ' ')} Finished` };
+  }
+  return null;
+};
+
+// --- Streaming helpers ---
+
+// Index of the latest unsealed streamed message of a run (optionally of one stream), or -1
+const findOpenStream = (state: ChatState, runId: string | null, streamId?: string): number =>
+  state.messages.findLastIndex(m =>
+    m.isStreaming && m.runId === (runId ?? undefined) && (streamId === undefined || m.streamId === streamId)
+  );
+
+// Append a delta to the open stream, or start a new streamed assistant message
+export const appendStreamDelta = (
+  state: ChatState,
+  runId: string | null,
+  streamId: string,
+  delta: string,
+  additionalFields: Partial<ChatMessage> = {}
+): ChatState => {
+  const index = findOpenStream(state, runId, streamId);
+  if (index === -1) {
+    return appendMessage(state, 'assistant', delta, {
+      ...additionalFields,
+      ...(runId ? { runId } : {}),
+      streamId,
+      isStreaming: true,
+    });
+  }
+  const messages = [...state.messages];
+  messages[index] = { ...messages[index], content: messages[index].content + delta };
+  return { ...state, messages };
+};
+
+// Seal every open stream of a run (or just one stream), optionally replacing its text
+export const sealStreams = (state: ChatState, runId: string | null, streamId?: string, content?: string): ChatState => {
+  if (findOpenStream(state, runId, streamId) === -1) return state;
+  return {
+    ...state,
+    messages: state.messages.map(m =>
+      m.isStreaming && m.runId === (runId ?? undefined) && (streamId === undefined || m.streamId === streamId)
+        ? { ...m, content: content ?? m.content, isStreaming: false }
+        : m
+    ),
+  };
+};
+
+// Seal the latest open stream with the final frame's fields, or append a new message if nothing was streamed
+const sealOrAppendAssistant = (
+  state: ChatState,
+  runId: string | null,
+  content: string | undefined,
+  fallbackContent: string,
+  additionalFields: Partial<ChatMessage> = {}
+): ChatState => {
+  const index = findOpenStream(state, runId);
+  if (index === -1) {
+    return appendMessage(state, 'assistant', content || fallbackContent, { ...additionalFields, ...(runId ? { runId } : {}) });
+  }
+  const messages = [...state.messages];
+  messages[index] = { ...messages[index], ...additionalFields, content: content || messages[index].content, isStreaming: false };
+  return { ...state, messages };
+};
+
+// --- Frame handling ---
+
+/**
+ * Applies a frame's data (tables, graphs, run status, workflow timeline) to the run it belongs to.
+ */
+export function applyRunFrame(run: RunState, message: WebSocketMessage, receivedAt: number): RunState {
+  const steps = applyTimelineFrame(run, message, receivedAt);
+  return applyRunData(steps === run.steps ? run : { ...run, steps }, message);
+}
+
+function applyRunData(run: RunState, message: WebSocketMessage): RunState {
+  switch (message.type) {
+    case 'query_result': {
+      // For general insight, this will show intermediate Google/Facebook results before final_insight combines them.
+      const queryResultData: QueryResult = {
+        objective: message.objective || 'Unknown Objective',
+        query: message.query || 'Unknown Query',
+        dataframe: message.data || [],
+        error: message.error,
+        platform: message.platform,
+        ...toResultPaging(message.result_handle),
+      };
+      const exists = run.queryResults.some(qr =>
+        qr.objective === queryResultData.objective && qr.query === queryResultData.query && qr.platform === queryResultData.platform
+      );
+      return exists ? run : { ...run, queryResults: [...run.queryResults, queryResultData] };
+    }
+
+    case 'final_insight':
+      return {
+        ...run,
+        status: 'completed',
+        // Without executed_queries (single-platform insight), query_result frames have already populated the tables
+        queryResults: executedQueriesToResults(message.executed_queries) ?? run.queryResults,
+        graphSuggestions: mapGraphSuggestions(message.graph_suggestions),
+      };
+
+    case 'final_recommendation':
+      return {
+        ...run,
+        status: 'completed',
+        // Clear results if no executed_queries in final_recommendation
+        queryResults: executedQueriesToResults(message.executed_queries) ?? [],
+        graphSuggestions: mapGraphSuggestions(message.graph_suggestions),
+      };
+
+    case 'classifier_answer':
+      return { ...run, status: 'completed' };
+
+    case 'status':
+      return message.step.endsWith('workflow_end') && run.status === 'running' ? { ...run, status: 'completed' } : run;
+
+    case 'error':
+      return { ...run, status: 'failed' };
+
+    default:
+      return run;
+  }
+}
+
+/**
+ * Applies a frame's conversation effects (chat messages, live status) for the active run.
+ */
+export function applyConversationFrame(state: ChatState, message: WebSocketMessage, runId: string | null): ChatState {
+  const runFields = runId ? { runId } : {};
+  switch (message.type) {
+    case 'connection_established': {
+      const activeRun = selectActiveRun(state);
+      const resumed = message.resumed ?? (state.userId !== null && message.user_id === state.userId);
+      if (resumed) {
+        const next = { ...state, userId: message.user_id };
+        return activeRun?.status === 'running'
+          ? appendMessage(next, 'milestone', '🔄 Reconnected, resumed run', { runId: activeRun.id })
+          : next;
+      }
+      // A brand-new session: sequence numbers restart and a running workflow can't be recovered
+      const next = { ...state, userId: message.user_id, lastSeq: null };
+      if (activeRun?.status !== 'running') return next;
+      return finishProcessing(appendMessage(
+        updateRun(next, activeRun.id, run => ({ ...run, status: 'failed' })),
+        'system',
+        'Reconnected with a new session. The previous run could not be resumed, please ask again.',
+        { runId: activeRun.id }
+      ));
+    }
+
+    case 'status': {
+      const { step, status } = message;
+      if (step.endsWith('workflow_end')) {
+        return finishProcessing(state);
+      }
+      const statusText = `**${step.replace(/_/g, ' ')}**: ${status.replace(/_/g, ' ')}${message.details ? ` - ${message.details}` : ''}`;
+      const next = { ...state, currentStatus: statusText };
+      const milestone = status === 'completed' ? milestoneForCompletedStep(step, message.generated_queries) : null;
+      return milestone ? appendMessage(next, 'milestone', milestone.content, { ...milestone, step, ...runFields }) : next;
+    }
+
+    case 'classifier_info':
+      if (message.content.trim() === '') return sealStreams(state, runId);
+      return { ...sealOrAppendAssistant(state, runId, message.content, message.content), currentStatus: 'Planning workflow...' };
+
+    case 'classifier_answer':
+      if (message.content.trim() === '') return finishProcessing(sealStreams(state, runId));
+      return finishProcessing(sealOrAppendAssistant(state, runId, message.content, message.content));
+
+    case 'insight_delta':
+      return appendStreamDelta(state, runId, message.stream_id ?? 'insight', message.delta, { step: message.step });
+
+    case 'answer_delta':
+      return appendStreamDelta(state, runId, message.stream_id ?? 'answer', message.delta);
+
+    case 'stream_end':
+      return sealStreams(state, runId, message.stream_id, message.content);
+
+    case 'reasoning_summary': {
+      const lastMilestoneIndex = state.messages.findLastIndex(m =>
+        m.role === 'milestone' && m.step === message.step && m.runId === (runId ?? undefined)
+      );
+      if (lastMilestoneIndex === -1) return state;
+      const messages = [...state.messages];
+      messages[lastMilestoneIndex] = { ...messages[lastMilestoneIndex], reasoning: `**Reasoning:**\n${message.reasoning}` };
+      return { ...state, messages };
+    }
+
+    case 'final_insight':
+      // Seals the streamed insight if deltas were sent, otherwise adds the insight in one block
+      return finishProcessing(sealOrAppendAssistant(state, runId, message.insight, 'No final insight received.', {
+        reasoning: message.reasoning ? `**Final Reasoning:**\\n${message.reasoning}` : undefined,
+        step: message.step
+      }));
+
+    case 'final_recommendation': {
+      const reportSections = message.report_sections;
+      return finishProcessing(appendMessage(state,
+        'assistant',
+        reportSections ? `Optimization report generated with ${reportSections.length} sections.` : 'Optimization report received.',
+        {
+          reportSections,
+          reasoning: message.reasoning ? `**Final Reasoning:**\\n${message.reasoning}` : undefined,
+          step: message.step,
+          ...runFields
+        }
+      ));
+    }
+
+    case 'query_result':
+    case 'routing_decision':
+      return state;
+
+    case 'error': {
+      const errorMsg = `**Error (${message.step || 'Unknown Step'}):** ${message.message}${message.details ? `\\n\\\`\\\`\\\`\\n${message.details}\\\`\\\`\\\`` : ''}`;
+      return finishProcessing(appendMessage(sealStreams(state, runId), 'system', errorMsg, runFields));
+    }
+  }
+}
+
+/**
+ * Routes one validated WebSocket frame to its run.
+ * Frames for the active run update both the run and the conversation; frames for
+ * an earlier run are filed under that run only; frames for unknown or cancelled runs are dropped.
+ */
+export function applyFrame(state: ChatState, message: WebSocketMessage, receivedAt: number): ChatState {
+  if (message.type === 'connection_established') {
+    return applyConversationFrame(state, message, null);
+  }
+  const runId = message.run_id ?? state.activeRunId;
+  if (!runId) {
+    return applyConversationFrame(state, message, null);
+  }
+  if (!state.runs[runId] || state.runs[runId].status === 'cancelled') {
+    return state;
+  }
+  const next = updateRun(state, runId, run => applyRunFrame(run, message, receivedAt));
+  return runId === state.activeRunId ? applyConversationFrame(next, message, runId) : next;
+}
+
+// --- Reducer ---
+
+export function chatReducer(state: ChatState, action: ChatAction): ChatState {
+  switch (action.type) {
+    case 'connection_opened':
+      // userId will be (re)confirmed on the connection_established frame
+      return selectActiveRun(state)?.status === 'running'
+        ? { ...state, currentStatus: 'Reconnected, resuming run...' }
+        : finishProcessing(state);
+
+    case 'connection_lost':
+      // Keep the session and any running run: the agent replays missed frames once we reconnect
+      return selectActiveRun(state)?.status === 'running'
+        ? { ...state, currentStatus: `${action.status} Reconnecting...` }
+        : { ...state, currentStatus: action.status, isProcessing: false };
+
+    case 'frame_received': {
+      const { frame } = action;
+      if (frame.ok) {
+        const { seq } = frame.message;
+        // Replayed frames we already applied before the reconnect (a new session restarts the sequence)
+        const isReplayed = seq !== undefined && state.lastSeq !== null && seq <= state.lastSeq;
+        if (isReplayed && frame.message.type !== 'connection_established') return state;
+        const next = applyFrame(state, frame.message, action.receivedAt);
+        return seq !== undefined ? { ...next, lastSeq: seq } : next;
+      }
+      // Unknown frame types are ignored for forward compatibility; malformed ones are surfaced
+      if (frame.reason === 'unknown_type') return state;
+      return appendMessage(state, 'system', `**Protocol error:** ${frame.error}`);
+    }
+
+    case 'user_message_sent': {
+      const { runId, attachments } = action;
+      const next = appendMessage(state, 'user', action.content, {
+        runId,
+        ...(attachments.length > 0 ? { attachments } : {}),
+      });
+      return {
+        ...next,
+        conversationId: state.conversationId ?? action.conversationId,
+        runs: { ...next.runs, [runId]: createRun(runId, action.sentAt) },
+        activeRunId: runId,
+        viewedRunId: runId,
+        currentStatus: 'Thinking...',
+        isProcessing: true,
+      };
+    }
+
+    case 'agent_acknowledged': {
+      // The ack for a superseded or cancelled run no longer affects the conversation
+      if (!isLiveRun(state, action.runId)) return state;
+      const next = action.response ? appendMessage(state, 'assistant', action.response, { runId: action.runId }) : state;
+      if (action.toolCalled) {
+        return { ...next, currentStatus: 'Agent processing workflow...' };
+      }
+      return finishProcessing(updateRun(next, action.runId, run => ({ ...run, status: 'completed' })));
+    }
+
+    case 'request_failed': {
+      const { runId } = action;
+      if (runId && !isLiveRun(state, runId)) return state;
+      const next = runId ? updateRun(state, runId, run => ({ ...run, status: 'failed' })) : state;
+      return finishProcessing(appendMessage(next, 'system', action.error, {
+        ...(runId ? { runId } : {}),
+        ...(action.retryAt ? { retryAt: action.retryAt } : {}),
+      }));
+    }
+
+    case 'run_cancelled': {
+      const run = state.runs[action.runId];
+      if (!run || run.status !== 'running') return state;
+      const next = sealStreams(updateRun(state, action.runId, r => ({ ...r, status: 'cancelled' })), action.runId);
+      return finishProcessing(appendMessage(next, 'milestone', '⏹️ Run cancelled', { runId: action.runId }));
+    }
+
+    case 'conversation_loaded': {
+      const { conversation } = action;
+      // A saved run can't still be running after a reload; stop it so late frames are ignored
+      // Conversations saved before the workflow timeline have runs without steps
+      const runs = Object.fromEntries(Object.entries(conversation.runs).map(([id, run]) =>
+        [id, { ...run, steps: run.steps ?? [], ...(run.status === 'running' ? { status: 'cancelled' as const } : {}) }]
+      ));
+      return {
+        ...state,
+        ...conversation,
+        runs,
+        viewedRunId: conversation.activeRunId,
+        messages: conversation.messages.map(m => m.isStreaming ? { ...m, isStreaming: false } : m),
+        currentStatus: null,
+        isProcessing: false,
+      };
+    }
+
+    case 'conversation_reset':
+      // Start a new chat on the same connection
+      return { ...initialChatState, userId: state.userId, lastSeq: state.lastSeq };
+
+    case 'run_selected':
+      return state.runs[action.runId] ? { ...state, viewedRunId: action.runId } : state;
+
+    case 'query_result_edited': {
+      // A re-executed query replaces the table it was edited from, or is added next to it
+      const { result, replaceIndex } = action;
+      return updateRun(state, action.runId, run => ({
+        ...run,
+        queryResults: replaceIndex !== undefined
+          ? run.queryResults.map((existing, index) => index === replaceIndex ? result : existing)
+          : [...run.queryResults, result],
+      }));
+    }
+
+    case 'result_page_loaded': {
+      // Append the page to every table of the run backed by this handle
+      const { handleId, rows, nextCursor } = action;
+      return updateRun(state, action.runId, run => ({
+        ...run,
+        queryResults: run.queryResults.map(result => result.paging?.handleId === handleId ? {
+          ...result,
+          dataframe: [...result.dataframe, ...rows],
+          paging: { handleId, totalRows: result.paging.totalRows, ...(nextCursor ? { nextCursor } : {}) },
+        } : result),
+      }));
+    }
+
+    case 'derived_columns_changed': {
+      const { resultIndex, derivedColumns } = action;
+      return updateRun(state, action.runId, run => ({
+        ...run,
+        queryResults: run.queryResults.map((result, index) => index === resultIndex ? { ...result, derivedColumns } : result),
+      }));
+    }
+
+    case 'system_message':
+      return appendMessage(state, 'system', action.content);
+  }
+}
@@ -0,0 +1,46 @@
+// Persists the WebSocket session so a reconnect (or a page reload in the same tab)
+// can ask the agent to replay the frames it missed.
+
+export interface ResumableSession {
+  userId: string; // Session ID assigned by the agent in connection_established
+  lastSeq: number | null; // Sequence number of the last frame applied
+}
+
+const SESSION_STORAGE_KEY = 'insight-assistant.session';
+
+export function loadSession(): ResumableSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!stored) return null;
+    const parsed = JSON.parse(stored);
+    if (typeof parsed?.userId !== 'string') return null;
+    return { userId: parsed.userId, lastSeq: typeof parsed.lastSeq === 'number' ? parsed.lastSeq : null };
+  } catch (e) {
+    console.warn('Could not read the stored chat session:', e);
+    return null;
+  }
+}
+
+export function saveSession(session: ResumableSession): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } catch (e) {
+    console.warn('Could not persist the chat session:', e);
+  }
+}
+
+/**
+ * Adds the resume parameters to the WebSocket URL. The agent replays every
+ * frame after `last_seq` for `user_id`, or starts a new session if it can't.
+ */
+export function buildResumeUrl(baseUrl: string, session: ResumableSession | null): string {
+  if (!session || !baseUrl) return baseUrl;
+  const url = new URL(baseUrl);
+  url.searchParams.set('user_id', session.userId);
+  if (session.lastSeq !== null) {
+    url.searchParams.set('last_seq', String(session.lastSeq));
+  }
+  return url.toString();
+}
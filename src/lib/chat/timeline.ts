@@ -0,0 +1,97 @@
+// Workflow timeline of a run: one step per agent workflow step, with its start/end time.
+// Frames carry no timestamps, so steps are timed by when their frames were received.
+import { WebSocketMessage } from '@/lib/chat/protocol';
+import { RunState, RunStep } from '@/lib/chat/types';
+
+// Latest still-running step with this name, or -1
+const findOpenStep = (steps: RunStep[], step: string): number =>
+  steps.findLastIndex(s => s.step === step && s.endedAt === undefined);
+
+const replaceStep = (steps: RunStep[], index: number, update: Partial<RunStep>): RunStep[] =>
+  steps.map((s, i) => i === index ? { ...s, ...update } : s);
+
+// A step reported only when it ended is assumed to have started when the previous one ended
+const inferStartedAt = (run: RunState, at: number): number =>
+  Math.min(at, run.steps.reduce((latest, s) => Math.max(latest, s.endedAt ?? s.startedAt), run.startedAt));
+
+const startStep = (run: RunState, step: string, at: number, update: Partial<RunStep> = {}): RunStep[] => {
+  const index = findOpenStep(run.steps, step);
+  if (index === -1) return [...run.steps, { step, status: 'running', startedAt: at, ...update }];
+  return Object.keys(update).length > 0 ? replaceStep(run.steps, index, update) : run.steps;
+};
+
+const endStep = (
+  run: RunState,
+  step: string,
+  at: number,
+  status: 'completed' | 'failed',
+  update: Partial<RunStep> = {}
+): RunStep[] => {
+  const index = findOpenStep(run.steps, step);
+  if (index === -1) return [...run.steps, { step, status, startedAt: inferStartedAt(run, at), endedAt: at, ...update }];
+  return replaceStep(run.steps, index, { ...update, status, endedAt: at });
+};
+
+// The workflow is over: whatever is still running finished with it
+const endOpenSteps = (steps: RunStep[], at: number): RunStep[] =>
+  steps.some(s => s.endedAt === undefined)
+    ? steps.map(s => s.endedAt === undefined ? { ...s, status: 'completed' as const, endedAt: at } : s)
+    : steps;
+
+/**
+ * Returns the run's steps after a frame received at `at` (epoch ms).
+ */
+export function applyTimelineFrame(run: RunState, message: WebSocketMessage, at: number): RunStep[] {
+  switch (message.type) {
+    case 'status': {
+      const { step, status } = message;
+      if (step.endsWith('workflow_end')) return endOpenSteps(run.steps, at);
+      const update = message.details ? { details: message.details } : {};
+      if (status === 'completed') return endStep(run, step, at, 'completed', update);
+      if (status === 'failed' || status === 'error') return endStep(run, step, at, 'failed', update);
+      return startStep(run, step, at, update);
+    }
+
+    case 'routing_decision': {
+      const routing = {
+        workflowType: message.workflow_type,
+        requiresExecution: message.requires_execution,
+        classificationDetails: message.classification_details,
+      };
+      if (!message.step) return endStep(run, 'routing', at, 'completed', { routing });
+      // Attached to the step that made the decision (usually classification), which may not have reported yet
+      const index = run.steps.findLastIndex(s => s.step === message.step);
+      if (index !== -1) return replaceStep(run.steps, index, { routing });
+      return [...run.steps, { step: message.step, status: 'running', startedAt: inferStartedAt(run, at), routing }];
+    }
+
+    case 'insight_delta':
+      return message.step ? startStep(run, message.step, at) : run.steps;
+
+    case 'final_insight':
+      return endOpenSteps(endStep(run, message.step ?? 'generate_insight', at, 'completed'), at);
+
+    case 'final_recommendation':
+      return endOpenSteps(endStep(run, message.step ?? 'generate_recommendation', at, 'completed'), at);
+
+    case 'classifier_answer':
+      return endOpenSteps(run.steps, at);
+
+    case 'error': {
+      // Without a step name, the error is blamed on the step that was running
+      const step = message.step ?? run.steps.findLast(s => s.endedAt === undefined)?.step ?? 'workflow';
+      return endStep(run, step, at, 'failed', { details: message.message });
+    }
+
+    default:
+      return run.steps;
+  }
+}
+
+// "850 ms", "4.2 s", "2 min 05 s"
+export const formatDuration = (ms: number): string => {
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)} s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)} min ${String(seconds % 60).padStart(2, '0')} s`;
+};
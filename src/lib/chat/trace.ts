@@ -0,0 +1,96 @@
+// Session traces: everything that went into the chat state machine during a session,
+// with timestamps, so an analyst's report can be reproduced on the /replay page.
+import { ChatAction } from '@/lib/chat/reducer';
+
+export const TRACE_VERSION = 1;
+// Keep memory bounded in long sessions. Recording stops at the cap rather than dropping the
+// oldest entries: a replay has to start from the beginning (conversation loads, first messages)
+const MAX_TRACE_ENTRIES = 5000;
+
+export type TraceEntry =
+  | { at: number; kind: 'frame'; data: unknown } // Raw inbound frame, decoded again on replay
+  | { at: number; kind: 'action'; action: ChatAction } // Any other chat state machine input
+  | { at: number; kind: 'request'; method: string; url: string; body: unknown } // Outbound HTTP request
+  | { at: number; kind: 'response'; url: string; status: number; body: unknown };
+
+// Entry before the recorder timestamps it (`at` is ms since the trace started)
+type Untimed<Entry> = Entry extends unknown ? Omit<Entry, 'at'> : never;
+export type UntimedTraceEntry = Untimed<TraceEntry>;
+
+export interface SessionTrace {
+  version: typeof TRACE_VERSION;
+  startedAt: string; // ISO timestamp
+  userAgent: string;
+  entries: TraceEntry[];
+  truncated?: { at: number; droppedEntries: number }; // Set once recording stopped at the cap; `at` as in entries
+}
+
+export interface TraceRecorder {
+  record(entry: UntimedTraceEntry): void;
+  toTrace(): SessionTrace;
+}
+
+export function createTraceRecorder(maxEntries = MAX_TRACE_ENTRIES): TraceRecorder {
+  const startedAt = Date.now();
+  const entries: TraceEntry[] = [];
+  let truncated: SessionTrace['truncated'];
+  return {
+    record(entry) {
+      const at = Date.now() - startedAt;
+      if (entries.length < maxEntries) {
+        entries.push({ ...entry, at } as TraceEntry);
+      } else {
+        truncated = { at: truncated?.at ?? at, droppedEntries: (truncated?.droppedEntries ?? 0) + 1 };
+      }
+    },
+    toTrace: () => ({
+      version: TRACE_VERSION,
+      startedAt: new Date(startedAt).toISOString(),
+      userAgent: typeof navigator === 'undefined' ? 'unknown' : navigator.userAgent,
+      entries: [...entries],
+      ...(truncated ? { truncated } : {}),
+    }),
+  };
+}
+
+// Saves the trace as a JSON file through a temporary download link
+export function downloadTrace(trace: SessionTrace): void {
+  const blob = new Blob([JSON.stringify(trace, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `chat-trace-${trace.startedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Validates an uploaded trace file; returns null for anything this version can't replay
+export function parseTrace(value: unknown): SessionTrace | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const trace = value as Partial<SessionTrace>;
+  if (trace.version !== TRACE_VERSION || !Array.isArray(trace.entries)) return null;
+  if (trace.truncated !== undefined && (typeof trace.truncated?.at !== 'number' || typeof trace.truncated.droppedEntries !== 'number')) return null;
+  const isValidEntry = (entry: unknown) =>
+    typeof entry === 'object' && entry !== null &&
+    typeof (entry as TraceEntry).at === 'number' &&
+    ['frame', 'action', 'request', 'response'].includes((entry as TraceEntry).kind);
+  return trace.entries.every(isValidEntry) ? (trace as SessionTrace) : null;
+}
+
+export interface ReplayHandlers {
+  onEntry: (entry: TraceEntry) => void;
+  onDone?: () => void;
+}
+
+/**
+ * Plays the entries back with their original spacing divided by `speed`
+ * (Infinity replays everything at once). Returns a function that stops the replay.
+ */
+export function replayTrace(trace: SessionTrace, { onEntry, onDone }: ReplayHandlers, speed = 1): () => void {
+  const timers = trace.entries.map(entry =>
+    setTimeout(() => onEntry(entry), Number.isFinite(speed) ? entry.at / speed : 0)
+  );
+  const lastAt = trace.entries.at(-1)?.at ?? 0;
+  timers.push(setTimeout(() => onDone?.(), Number.isFinite(speed) ? lastAt / speed : 0));
+  return () => timers.forEach(clearTimeout);
+}
@@ -0,0 +1,70 @@
+import { createLongPollTransport } from '@/lib/chat/transports/longPoll';
+import { createSseTransport } from '@/lib/chat/transports/sse';
+import { ChatTransport, TransportKind, TransportOptions } from '@/lib/chat/transports/types';
+import { createWebSocketTransport } from '@/lib/chat/transports/websocket';
+
+export * from '@/lib/chat/transports/types';
+
+/**
+ * Tries each transport in order and settles on the first one that manages to open.
+ * A transport that fails before ever opening (e.g. a proxy blocking WebSockets)
+ * is abandoned for the next; once one has opened, it keeps reconnecting itself.
+ */
+export const createFallbackTransport = (transports: ChatTransport[]): ChatTransport => ({
+  kind: transports[0].kind,
+  connect({ getSession, onEvent }: TransportOptions) {
+    let index = 0;
+    let hasOpened = false;
+    let disconnect = () => {};
+
+    const start = () => {
+      const transport = transports[index];
+      console.log(`[transport] Connecting with ${transport.kind}`);
+      disconnect = transport.connect({
+        getSession,
+        onEvent: event => {
+          if (event.type === 'open') hasOpened = true;
+          if (event.type === 'close' && !hasOpened && index < transports.length - 1) {
+            console.warn(`[transport] ${transport.kind} failed to connect, falling back to ${transports[index + 1].kind}`);
+            disconnect();
+            index += 1;
+            start();
+            return;
+          }
+          onEvent(event);
+        },
+      });
+    };
+
+    start();
+    return () => disconnect();
+  },
+});
+
+// Get WebSocket URL from environment variable
+const WEBSOCKET_URL = process.env.NEXT_PUBLIC_WEBSOCKET_URL;
+
+/**
+ * Picks the transport from NEXT_PUBLIC_CHAT_TRANSPORT ('websocket' | 'sse' | 'longpoll').
+ * Unset or 'auto' tries WebSocket (when configured), then SSE, then long-poll.
+ */
+export function createChatTransport(kind = process.env.NEXT_PUBLIC_CHAT_TRANSPORT): ChatTransport {
+  const byKind: Record<TransportKind, () => ChatTransport> = {
+    websocket: () => {
+      if (!WEBSOCKET_URL) {
+        console.error("Error: NEXT_PUBLIC_WEBSOCKET_URL environment variable is not set!");
+      }
+      return createWebSocketTransport(WEBSOCKET_URL || '');
+    },
+    sse: () => createSseTransport(),
+    longpoll: () => createLongPollTransport(),
+  };
+  if (kind === 'websocket' || kind === 'sse' || kind === 'longpoll') {
+    return byKind[kind]();
+  }
+  return createFallbackTransport([
+    ...(WEBSOCKET_URL ? [byKind.websocket()] : []),
+    byKind.sse(),
+    byKind.longpoll(),
+  ]);
+}
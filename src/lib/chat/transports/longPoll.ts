@@ -0,0 +1,82 @@
+import { redirectToLogin } from '@/lib/auth/client';
+import { buildResumeUrl } from '@/lib/chat/session';
+import { connectWithReconnect } from '@/lib/chat/transports/reconnect';
+import { ChatTransport } from '@/lib/chat/transports/types';
+
+// An empty batch that came back sooner than this means the agent's stream closed without events
+// (not an idle poll that ran to its deadline), so the next poll waits instead of looping hot
+const EARLY_EMPTY_POLL_MS = 5000;
+const INITIAL_EMPTY_POLL_DELAY_MS = 1000;
+const MAX_EMPTY_POLL_DELAY_MS = 15000;
+
+// Resolves after the delay, or as soon as the signal aborts
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const done = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  signal.addEventListener('abort', done);
+});
+
+// Read the frame type and sequence number without full validation (that happens in the reducer)
+const peekFrame = (data: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(data);
+    return typeof parsed === 'object' && parsed !== null ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// Agent events fetched by repeated long-poll requests to /api/frontend/events/poll.
+// Last resort for networks that block both WebSockets and streaming responses.
+export const createLongPollTransport = (path = '/api/frontend/events/poll'): ChatTransport => ({
+  kind: 'longpoll',
+  connect: options => connectWithReconnect((session, { onOpen, onFrame, onClose }) => {
+    const controller = new AbortController();
+    let userId = session?.userId ?? null;
+    let lastSeq = session?.lastSeq ?? null;
+    let established = false;
+    let earlyEmptyPolls = 0;
+
+    const poll = async () => {
+      while (!controller.signal.aborted) {
+        const startedAt = Date.now();
+        const url = buildResumeUrl(new URL(path, window.location.origin).toString(), userId ? { userId, lastSeq } : null);
+        const response = await fetch(url, { signal: controller.signal });
+        if (response.status === 401) redirectToLogin();
+        if (!response.ok) throw new Error(`Long-poll failed: HTTP error ${response.status}`);
+        const { events } = await response.json() as { events: string[] };
+        if (!established) onOpen();
+
+        for (const data of events) {
+          const frame = peekFrame(data);
+          if (typeof frame.seq === 'number') lastSeq = Math.max(lastSeq ?? frame.seq, frame.seq);
+          if (frame.type === 'connection_established' && typeof frame.user_id === 'string') {
+            // Every poll re-attaches to the session; only a first or changed session is news
+            if (established && frame.user_id === userId) continue;
+            userId = frame.user_id;
+          }
+          onFrame(data);
+        }
+        established = true;
+
+        if (events.length === 0 && Date.now() - startedAt < EARLY_EMPTY_POLL_MS) {
+          await wait(Math.min(INITIAL_EMPTY_POLL_DELAY_MS * 2 ** earlyEmptyPolls, MAX_EMPTY_POLL_DELAY_MS), controller.signal);
+          earlyEmptyPolls += 1;
+        } else {
+          earlyEmptyPolls = 0;
+        }
+      }
+    };
+
+    poll().catch(error => {
+      if (controller.signal.aborted) return;
+      console.error('Long-poll error:', error);
+      onClose(true);
+    });
+    return () => controller.abort();
+  }, options),
+});
@@ -0,0 +1,42 @@
+import { OpenConnection, TransportOptions } from '@/lib/chat/transports/types';
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 15000;
+
+/**
+ * Keeps a connection alive: reopens it with exponential backoff whenever it drops,
+ * until the returned disconnect function is called.
+ */
+export function connectWithReconnect(openConnection: OpenConnection, { getSession, onEvent }: TransportOptions): () => void {
+  let stopped = false;
+  let failedAttempts = 0;
+  let closeCurrent: (() => void) | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const open = () => {
+    let closed = false;
+    closeCurrent = openConnection(getSession(), {
+      onOpen: () => {
+        failedAttempts = 0;
+        onEvent({ type: 'open' });
+      },
+      onFrame: data => onEvent({ type: 'frame', data }),
+      onClose: error => {
+        if (stopped || closed) return;
+        closed = true;
+        onEvent({ type: 'close', error });
+        if (stopped) return; // The listener may have disconnected (e.g. to fall back to another transport)
+        const delay = Math.min(INITIAL_RECONNECT_DELAY_MS * 2 ** failedAttempts, MAX_RECONNECT_DELAY_MS);
+        failedAttempts += 1;
+        retryTimer = setTimeout(open, delay);
+      },
+    });
+  };
+
+  open();
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    closeCurrent?.();
+  };
+}
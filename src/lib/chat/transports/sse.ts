@@ -0,0 +1,19 @@
+import { buildResumeUrl } from '@/lib/chat/session';
+import { connectWithReconnect } from '@/lib/chat/transports/reconnect';
+import { ChatTransport } from '@/lib/chat/transports/types';
+
+// Agent events as Server-Sent Events, proxied by /api/frontend/events (works through proxies that block WebSockets)
+export const createSseTransport = (path = '/api/frontend/events'): ChatTransport => ({
+  kind: 'sse',
+  connect: options => connectWithReconnect((session, { onOpen, onFrame, onClose }) => {
+    const source = new EventSource(buildResumeUrl(new URL(path, window.location.origin).toString(), session));
+    source.onopen = () => onOpen();
+    source.onmessage = event => onFrame(event.data);
+    source.onerror = () => {
+      // Reconnect ourselves so the URL carries the latest sequence number
+      source.close();
+      onClose(true);
+    };
+    return () => source.close();
+  }, options),
+});
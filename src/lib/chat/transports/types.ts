@@ -0,0 +1,31 @@
+import { ResumableSession } from '@/lib/chat/session';
+
+export type TransportKind = 'websocket' | 'sse' | 'longpoll';
+
+export type ConnectionState = 'connecting' | 'open' | 'closed';
+
+// Normalized events every transport emits into the chat state machine
+export type TransportEvent =
+  | { type: 'open' }
+  | { type: 'close'; error: boolean } // The transport reconnects on its own after a close
+  | { type: 'frame'; data: unknown }; // Raw frame, decoded and validated by useChat
+
+export interface TransportOptions {
+  getSession: () => ResumableSession | null; // Read on every (re)connect to resume where we left off
+  onEvent: (event: TransportEvent) => void;
+}
+
+export interface ChatTransport {
+  kind: TransportKind;
+  // Starts receiving agent events; returns a function that disconnects for good
+  connect(options: TransportOptions): () => void;
+}
+
+// Callbacks for a single physical connection attempt. onClose is called at most once.
+export interface ConnectionCallbacks {
+  onOpen: () => void;
+  onFrame: (data: unknown) => void;
+  onClose: (error: boolean) => void;
+}
+
+export type OpenConnection = (session: ResumableSession | null, callbacks: ConnectionCallbacks) => () => void;
@@ -0,0 +1,42 @@
+import { fetchAgentToken } from '@/lib/auth/client';
+import { buildResumeUrl } from '@/lib/chat/session';
+import { connectWithReconnect } from '@/lib/chat/transports/reconnect';
+import { ChatTransport } from '@/lib/chat/transports/types';
+
+// Agent events over a direct WebSocket connection to the agent. The agent can't read our
+// session cookie, so every connection carries a fresh signed token for the signed-in user.
+export const createWebSocketTransport = (url: string): ChatTransport => ({
+  kind: 'websocket',
+  connect: options => connectWithReconnect((session, { onOpen, onFrame, onClose }) => {
+    let socket: WebSocket | null = null;
+    let disconnected = false;
+
+    fetchAgentToken()
+      .then(token => {
+        if (disconnected) return;
+        const socketUrl = new URL(buildResumeUrl(url, session));
+        socketUrl.searchParams.set('token', token);
+        socket = new WebSocket(socketUrl.toString());
+        socket.onopen = () => onOpen();
+        socket.onmessage = event => onFrame(event.data);
+        socket.onerror = event => {
+          console.error('WebSocket Error:', event);
+          onClose(true);
+        };
+        socket.onclose = () => onClose(false);
+      })
+      .catch(error => {
+        if (disconnected) return;
+        console.error('WebSocket Error:', error);
+        onClose(true);
+      });
+
+    return () => {
+      disconnected = true;
+      if (!socket) return;
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.close();
+    };
+  }, options),
+});
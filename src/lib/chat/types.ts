@@ -0,0 +1,102 @@
+import { GeneratedQuery, ReportSection } from '@/lib/chat/protocol';
+
+// Define the structure of a chat message
+export interface ChatMessage {
+  id: string; // Add unique ID for React keys
+  role: 'user' | 'assistant' | 'system' | 'milestone' | 'context_info'; // Add milestone role
+  content: string; // Main text or summary for milestone OR fallback text
+  // Optional fields based on backend stream
+  reasoning?: string;
+  reportSections?: ReportSection[]; // Store structured sections
+  // Store the array of queries directly
+  generatedQueries?: GeneratedQuery[];
+  step?: string; // Associate milestone with a step
+  runId?: string; // Agent run this message belongs to
+  streamId?: string; // Set on assistant messages built from streamed deltas
+  isStreaming?: boolean; // True until the stream is sealed
+  attachments?: ChatAttachment[]; // Context the user attached to this message
+  retryAt?: number; // Epoch ms after which a rate-limited request may be sent again
+}
+
+// Define structure for individual query results (used in DataExplorer)
+export interface QueryResult {
+  objective: string;
+  query: string;
+  dataframe: Record<string, unknown>[]; // Array of data rows
+  error?: string;
+  platform?: string; // Optional: if we want to tag single query_result messages too
+  edits?: QueryEdit[]; // Hand edits re-executed from the Data Explorer, oldest first
+  paging?: ResultPaging; // Set for results sent by reference; dataframe holds the rows loaded so far
+  derivedColumns?: DerivedColumn[]; // Computed in the browser on top of dataframe, in order
+}
+
+// A column computed from a result's other columns with an expression, e.g. ctr = clicks / impressions
+export interface DerivedColumn {
+  name: string;
+  expression: string;
+}
+
+// Where a result sent by reference continues
+export interface ResultPaging {
+  handleId: string;
+  totalRows: number;
+  nextCursor?: string; // Unset once every row is loaded
+}
+
+// Whether a re-executed query replaces the table it was edited from or is added as a new one
+export type QueryRunMode = 'replace' | 'add';
+
+// Audit record of one edited and re-executed query
+export interface QueryEdit {
+  editedAt: string; // ISO timestamp
+  editedBy?: string; // User ID
+  previousQuery: string;
+  query: string;
+  diff: string; // Line diff of previousQuery -> query ('-' removed, '+' added, ' ' unchanged)
+}
+
+// Define structure for graph suggestions
+export interface GraphSuggestion {
+  objective: string; // To link suggestion to a query objective if needed
+  // Add other fields that your backend sends for graph suggestions
+  // For example:
+  type?: string; // e.g., 'bar', 'line'
+  x_axis?: string; // column name for x-axis
+  y_axis?: string | string[]; // column name(s) for y-axis
+  title?: string;
+  description?: string;
+  [key: string]: unknown; // Allow other properties
+}
+
+// One agent workflow, started by a single user message. Results are kept per run
+// so that late frames from an earlier question never leak into the current answer.
+export interface RunState {
+  id: string;
+  status: 'running' | 'completed' | 'failed' | 'cancelled';
+  queryResults: QueryResult[];
+  graphSuggestions: GraphSuggestion[];
+  startedAt: number; // Epoch ms the question was sent
+  steps: RunStep[]; // Workflow timeline, in the order the steps started
+}
+
+// One agent workflow step (classification, query generation, execution, insight...), built from its frames
+export interface RunStep {
+  step: string;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: number; // Epoch ms
+  endedAt?: number; // Unset while running, or if the run stopped before the step ended
+  details?: string; // Latest status details, or the error message of a failed step
+  routing?: { // routing_decision payload
+    workflowType?: string;
+    requiresExecution?: boolean;
+    classificationDetails?: Record<string, unknown>;
+  };
+}
+
+// Context staged from the Data Explorer (or typed in) and sent alongside a user message.
+// Sent to the agent as structured JSON, never spliced into the message text.
+export type ChatAttachment =
+  | { id: string; kind: 'table_rows'; objective: string; rows: Record<string, unknown>[] } // Rows picked in the Table Viewer
+  | { id: string; kind: 'query_result'; objective: string; query: string; rows: Record<string, unknown>[]; filters?: string[] } // A result table, narrowed by the listed filters if any
+  | { id: string; kind: 'chart'; title: string; objective?: string; suggestion: GraphSuggestion }
+  | { id: string; kind: 'text'; text: string };
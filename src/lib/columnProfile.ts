@@ -0,0 +1,185 @@
+// Column profiles for query results. Rows are untyped JSON, so each column's display type
+// is inferred from its values (and, for money and rates, its name) and formatted with Intl
+// in the user's locale. Profiles decide how a column is shown and which filter it gets;
+// exports use the raw values.
+import { cellText } from '@/lib/tableFilters';
+
+export type ColumnType =
+  | 'integer'
+  | 'decimal'
+  | 'percentage'
+  | 'currency'
+  | 'date'
+  | 'datetime'
+  | 'boolean'
+  | 'url'
+  | 'json'
+  | 'text';
+
+export interface ColumnProfile {
+  type: ColumnType;
+  inferredType: ColumnType; // What the values suggested, before any user override
+  currency: string; // ISO 4217 code used when shown as currency
+  percentScale: 'ratio' | 'points'; // 0.025 vs 2.5 for 2.5%
+}
+
+export const COLUMN_TYPE_LABELS: Record<ColumnType, string> = {
+  integer: 'Integer',
+  decimal: 'Decimal',
+  percentage: 'Percentage',
+  currency: 'Currency',
+  date: 'Date',
+  datetime: 'Date & time',
+  boolean: 'Yes / No',
+  url: 'Link',
+  json: 'JSON',
+  text: 'Text',
+};
+
+export const NUMERIC_COLUMN_TYPES: ColumnType[] = ['integer', 'decimal', 'percentage', 'currency'];
+
+const DEFAULT_CURRENCY = 'USD';
+const CURRENCY_SUFFIX = /(?:^|_)(usd|eur|gbp|inr|jpy|cad|aud|chf|cny|brl|mxn|sek|nok|dkk)$/i;
+const CURRENCY_NAME = /(?:^|_)(spend|cost|costs|revenue|budget|cpc|cpm|cpa|cpi|price|amount|value|sales|profit|earnings|bid)(?:_|$)/i;
+const PERCENTAGE_NAME = /(?:^|_)(ctr|cvr|rate|pct|percent|percentage|share|margin)(?:_|$)/i;
+// Numeric identifiers and years read wrong with thousands separators
+const IDENTIFIER_NAME = /(?:^|_)(id|year)$/i;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}/;
+const URL_PATTERN = /^https?:\/\/\S+$/i;
+// Decimals some warehouses return as strings; codes with leading zeros stay text
+const NUMERIC_STRING = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const inferColumnType = (column: string, values: unknown[]): ColumnType => {
+  if (values.length === 0) return 'text';
+  if (values.some(value => typeof value === 'object')) return 'json';
+  if (values.every(value => typeof value === 'boolean')) return 'boolean';
+  if (values.every(value => typeof value === 'number' || (typeof value === 'string' && NUMERIC_STRING.test(value)))) {
+    const numbers = values.map(Number);
+    if (CURRENCY_SUFFIX.test(column) || CURRENCY_NAME.test(column)) return 'currency';
+    if (PERCENTAGE_NAME.test(column)) return 'percentage';
+    if (numbers.every(Number.isInteger)) return IDENTIFIER_NAME.test(column) ? 'text' : 'integer';
+    return 'decimal';
+  }
+  if (values.every(value => typeof value === 'string')) {
+    const strings = values as string[];
+    const isDate = (text: string) => !Number.isNaN(Date.parse(text));
+    if (strings.every(text => DATE_ONLY.test(text) && isDate(text))) return 'date';
+    if (strings.every(text => (DATE_ONLY.test(text) || DATE_TIME.test(text)) && isDate(text))) return 'datetime';
+    if (strings.every(text => URL_PATTERN.test(text))) return 'url';
+  }
+  return 'text';
+};
+
+/**
+ * Profiles every column of a result from its non-blank values.
+ */
+export function profileColumns(rows: Record<string, unknown>[]): Record<string, ColumnProfile> {
+  if (rows.length === 0) return {};
+  return Object.fromEntries(Object.keys(rows[0]).map(column => {
+    const values = rows.map(row => row[column]).filter(value => !isBlank(value));
+    const type = inferColumnType(column, values);
+    const numbers = values.map(toNumber).filter((value): value is number => value !== undefined);
+    return [column, {
+      type,
+      inferredType: type,
+      currency: CURRENCY_SUFFIX.exec(column)?.[1].toUpperCase() ?? DEFAULT_CURRENCY,
+      percentScale: numbers.length > 0 && numbers.every(value => Math.abs(value) <= 1) ? 'ratio' : 'points',
+    } satisfies ColumnProfile];
+  }));
+}
+
+// Applies the user's per-column format choices on top of the inferred profiles
+export function withFormatOverrides(
+  profiles: Record<string, ColumnProfile>,
+  overrides: Record<string, ColumnType>
+): Record<string, ColumnProfile> {
+  return Object.fromEntries(Object.entries(profiles).map(([column, profile]) =>
+    [column, overrides[column] ? { ...profile, type: overrides[column] } : profile]
+  ));
+}
+
+// Intl formatters are costly to build, and a table formats thousands of cells
+const numberFormats = new Map<string, Intl.NumberFormat>();
+const dateFormats = new Map<string, Intl.DateTimeFormat>();
+
+const numberFormat = (locale: string | undefined, options: Intl.NumberFormatOptions) => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  if (!numberFormats.has(key)) numberFormats.set(key, new Intl.NumberFormat(locale, options));
+  return numberFormats.get(key)!;
+};
+
+const dateFormat = (locale: string | undefined, options: Intl.DateTimeFormatOptions) => {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  if (!dateFormats.has(key)) dateFormats.set(key, new Intl.DateTimeFormat(locale, options));
+  return dateFormats.get(key)!;
+};
+
+// Small fractions keep their significant digits instead of rounding to 0.00
+const decimalOptions = (value: number): Intl.NumberFormatOptions =>
+  Math.abs(value) >= 1 || value === 0 ? { maximumFractionDigits: 2 } : { maximumSignificantDigits: 3 };
+
+/**
+ * Formats a cell for display. Values that don't fit the column's type (e.g. after an
+ * override, or a stray string in a numeric column) are shown as they are.
+ */
+export function formatCell(value: unknown, profile: ColumnProfile | undefined, locale?: string): string {
+  if (isBlank(value)) return '';
+  const number = toNumber(value);
+  switch (profile?.type) {
+    case 'integer':
+      if (number === undefined) break;
+      return numberFormat(locale, { maximumFractionDigits: 0 }).format(number);
+    case 'decimal':
+      if (number === undefined) break;
+      return numberFormat(locale, decimalOptions(number)).format(number);
+    case 'percentage': {
+      if (number === undefined) break;
+      const ratio = profile.percentScale === 'ratio' ? number : number / 100;
+      return numberFormat(locale, { style: 'percent', maximumFractionDigits: 2 }).format(ratio);
+    }
+    case 'currency':
+      if (number === undefined) break;
+      return numberFormat(locale, { style: 'currency', currency: profile.currency }).format(number);
+    case 'date':
+    case 'datetime': {
+      if (typeof value !== 'string' && typeof value !== 'number') break;
+      const time = typeof value === 'number' ? value : Date.parse(value);
+      if (Number.isNaN(time)) break;
+      // Date-only values are midnight UTC; formatting them in local time could show the previous day
+      const options: Intl.DateTimeFormatOptions = profile.type === 'date' || (typeof value === 'string' && DATE_ONLY.test(value))
+        ? { dateStyle: 'medium', timeZone: 'UTC' }
+        : { dateStyle: 'medium', timeStyle: 'short' };
+      return dateFormat(locale, options).format(time);
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+      break;
+  }
+  return cellText(value);
+}
+
+// Symbol shown for a currency in the user's locale, e.g. "$" or "€"
+export function currencySymbol(currency: string, locale?: string): string {
+  return numberFormat(locale, { style: 'currency', currency }).formatToParts(0).find(part => part.type === 'currency')?.value ?? currency;
+}
+
+/**
+ * Picks chart axes from the profiles: a date (or else a label) column for x and the
+ * first numeric measure for y. Used when a graph suggestion doesn't name usable columns.
+ */
+export function chooseAxes(profiles: Record<string, ColumnProfile>): { x?: string; y?: string } {
+  const columns = Object.keys(profiles);
+  const x = columns.find(column => ['date', 'datetime'].includes(profiles[column].type))
+    ?? columns.find(column => ['text', 'boolean'].includes(profiles[column].type))
+    ?? columns[0];
+  const y = columns.find(column => column !== x && NUMERIC_COLUMN_TYPES.includes(profiles[column].type));
+  return { x, y };
+}
@@ -0,0 +1,191 @@
+// Rule-based conditional formatting for Table Viewer columns: color scales, threshold
+// highlights, data bars and up/down icons against a baseline column. Rules are saved with
+// the table layout; this module turns them into a formatting per cell, for the screen and for XLSX.
+
+type DataRow = Record<string, unknown>;
+
+export type FormatColor = 'green' | 'red' | 'amber' | 'blue';
+export type ThresholdOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export type ConditionalFormatRule =
+  | { kind: 'colorScale'; lowColor: FormatColor; highColor: FormatColor } // Fades from lowColor at the minimum to highColor at the maximum
+  | { kind: 'threshold'; operator: ThresholdOperator; value: number; color: FormatColor }
+  | { kind: 'dataBar'; color: FormatColor }
+  | { kind: 'deltaIcon'; baseline: string; higherIsBetter: boolean }; // ▲/▼ against another column of the same row
+
+export type ConditionalFormatKind = ConditionalFormatRule['kind'];
+
+// Rules per column, applied in order
+export type ConditionalFormats = Record<string, ConditionalFormatRule[]>;
+
+export const RULE_LABELS: Record<ConditionalFormatKind, string> = {
+  colorScale: 'Color scale',
+  threshold: 'Highlight',
+  dataBar: 'Data bar',
+  deltaIcon: 'Up/down vs. column',
+};
+
+export const FORMAT_COLORS: Record<FormatColor, { label: string; rgb: [number, number, number] }> = {
+  green: { label: 'Green', rgb: [22, 163, 74] },
+  red: { label: 'Red', rgb: [220, 38, 38] },
+  amber: { label: 'Amber', rgb: [217, 119, 6] },
+  blue: { label: 'Blue', rgb: [37, 99, 235] },
+};
+
+export const THRESHOLD_OPERATORS: ThresholdOperator[] = ['>', '>=', '<', '<=', '=', '!='];
+
+export interface ColumnRange {
+  min: number;
+  max: number;
+}
+
+export interface CellFormatting {
+  fill?: { color: FormatColor; strength: number }; // strength 0..1
+  bar?: { color: FormatColor; fraction: number }; // Share of the cell width, 0..1
+  delta?: { direction: 'up' | 'down' | 'flat'; isGood: boolean | null };
+}
+
+// Strongest tint a fill reaches, so text stays readable in light and dark themes
+const MAX_FILL_ALPHA = 0.4;
+const THRESHOLD_STRENGTH = 0.8;
+const BAR_ALPHA = 0.3;
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const isFormatColor = (value: unknown): value is FormatColor => typeof value === 'string' && value in FORMAT_COLORS;
+
+// Rules saved by an older version (or edited by hand) that don't fit are dropped
+export function isConditionalFormatRule(value: unknown): value is ConditionalFormatRule {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  switch (rule.kind) {
+    case 'colorScale': return isFormatColor(rule.lowColor) && isFormatColor(rule.highColor);
+    case 'threshold': return THRESHOLD_OPERATORS.includes(rule.operator as ThresholdOperator) && typeof rule.value === 'number' && isFormatColor(rule.color);
+    case 'dataBar': return isFormatColor(rule.color);
+    case 'deltaIcon': return typeof rule.baseline === 'string' && typeof rule.higherIsBetter === 'boolean';
+    default: return false;
+  }
+}
+
+/**
+ * Min and max of each formatted column over the given rows. Scales and bars are relative to
+ * these, so callers pass the rows left by the filters.
+ */
+export function columnRanges(rows: DataRow[], formats: ConditionalFormats): Record<string, ColumnRange> {
+  const ranges: Record<string, ColumnRange> = {};
+  for (const column of Object.keys(formats)) {
+    if (!formats[column].some(rule => rule.kind === 'colorScale' || rule.kind === 'dataBar')) continue;
+    let min = Infinity, max = -Infinity;
+    for (const row of rows) {
+      const number = toNumber(row[column]);
+      if (number === undefined) continue;
+      if (number < min) min = number;
+      if (number > max) max = number;
+    }
+    if (min <= max) ranges[column] = { min, max };
+  }
+  return ranges;
+}
+
+const matchesThreshold = (number: number, operator: ThresholdOperator, value: number) => {
+  switch (operator) {
+    case '>': return number > value;
+    case '>=': return number >= value;
+    case '<': return number < value;
+    case '<=': return number <= value;
+    case '=': return number === value;
+    case '!=': return number !== value;
+  }
+};
+
+/**
+ * How a cell looks under its column's rules, or null when none apply. Non-numeric cells
+ * are left alone. A later fill paints over an earlier one.
+ */
+export function cellFormatting(
+  row: DataRow,
+  column: string,
+  rules: ConditionalFormatRule[] | undefined,
+  range: ColumnRange | undefined
+): CellFormatting | null {
+  const number = toNumber(row[column]);
+  if (!rules || rules.length === 0 || number === undefined) return null;
+
+  const formatting: CellFormatting = {};
+  for (const rule of rules) {
+    switch (rule.kind) {
+      case 'colorScale': {
+        if (!range || range.max === range.min) break;
+        // Two halves around the midpoint: pale in the middle, strongest at either end
+        const position = (number - range.min) / (range.max - range.min);
+        formatting.fill = position < 0.5
+          ? { color: rule.lowColor, strength: (0.5 - position) * 2 }
+          : { color: rule.highColor, strength: (position - 0.5) * 2 };
+        break;
+      }
+      case 'threshold':
+        if (matchesThreshold(number, rule.operator, rule.value)) formatting.fill = { color: rule.color, strength: THRESHOLD_STRENGTH };
+        break;
+      case 'dataBar': {
+        // Bar length is the value's size relative to the largest in the column; negatives are red
+        const largest = range ? Math.max(Math.abs(range.min), Math.abs(range.max)) : 0;
+        if (largest === 0) break;
+        formatting.bar = { color: number < 0 ? 'red' : rule.color, fraction: Math.min(1, Math.abs(number) / largest) };
+        break;
+      }
+      case 'deltaIcon': {
+        const baseline = toNumber(row[rule.baseline]);
+        if (baseline === undefined) break;
+        const direction = number > baseline ? 'up' : number < baseline ? 'down' : 'flat';
+        formatting.delta = { direction, isGood: direction === 'flat' ? null : (direction === 'up') === rule.higherIsBetter };
+        break;
+      }
+    }
+  }
+  return formatting.fill || formatting.bar || formatting.delta ? formatting : null;
+}
+
+const rgba = (color: FormatColor, alpha: number) => `rgb(${FORMAT_COLORS[color].rgb.join(' ')} / ${alpha.toFixed(3)})`;
+
+// CSS background-image for a cell: the fill and the bar are layered over the cell's own background,
+// so pinned cells stay opaque
+export function cellBackgroundImage(formatting: CellFormatting): string | undefined {
+  const layers: string[] = [];
+  if (formatting.bar) {
+    const percent = (formatting.bar.fraction * 100).toFixed(1);
+    layers.push(`linear-gradient(to right, ${rgba(formatting.bar.color, BAR_ALPHA)} ${percent}%, transparent ${percent}%)`);
+  }
+  if (formatting.fill) {
+    const fill = rgba(formatting.fill.color, formatting.fill.strength * MAX_FILL_ALPHA);
+    layers.push(`linear-gradient(${fill}, ${fill})`);
+  }
+  return layers.length > 0 ? layers.join(', ') : undefined;
+}
+
+// Tint blended onto white, for formats (XLSX) without transparency
+const tintHex = (color: FormatColor, alpha: number) =>
+  '#' + FORMAT_COLORS[color].rgb.map(channel => Math.round(255 + (channel - 255) * alpha).toString(16).padStart(2, '0')).join('');
+
+/**
+ * The formatting as spreadsheet cell styles. Spreadsheets can't draw the bars or icons per
+ * cell, so a bar becomes a fill as strong as the bar is long, and an icon colors the text.
+ */
+export function xlsxCellStyle(formatting: CellFormatting): { backgroundColor?: string; textColor?: string } {
+  const style: { backgroundColor?: string; textColor?: string } = {};
+  if (formatting.fill) style.backgroundColor = tintHex(formatting.fill.color, formatting.fill.strength * MAX_FILL_ALPHA);
+  else if (formatting.bar) style.backgroundColor = tintHex(formatting.bar.color, formatting.bar.fraction * MAX_FILL_ALPHA);
+  if (formatting.delta && formatting.delta.isGood !== null) style.textColor = formatting.delta.isGood ? '#15803d' : '#b91c1c';
+  return style;
+}
+
+export function describeRule(rule: ConditionalFormatRule): string {
+  switch (rule.kind) {
+    case 'colorScale': return `${RULE_LABELS.colorScale}: ${FORMAT_COLORS[rule.lowColor].label.toLowerCase()} to ${FORMAT_COLORS[rule.highColor].label.toLowerCase()}`;
+    case 'threshold': return `${FORMAT_COLORS[rule.color].label} when ${rule.operator} ${rule.value}`;
+    case 'dataBar': return `${FORMAT_COLORS[rule.color].label} ${RULE_LABELS.dataBar.toLowerCase()}`;
+    case 'deltaIcon': return `▲/▼ vs. ${rule.baseline}${rule.higherIsBetter ? '' : ' (lower is better)'}`;
+  }
+}
@@ -0,0 +1,108 @@
+// Server-only conversation store backed by a single JSON file.
+// Good enough for a local/single-instance deployment; not meant for concurrent servers.
+// Every record belongs to the user who first saved it, and is only visible to them.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { getSessionUser } from '@/lib/auth/session';
+import { ConversationRecord, ConversationStore, sortByRecent, toSummary } from '@/lib/conversations/types';
+
+const STORE_FILE = process.env.CONVERSATIONS_FILE || path.join(process.cwd(), '.data', 'conversations.json');
+
+// Records saved before conversations had owners have no ownerId, so nobody sees them
+type StoredConversation = ConversationRecord & { ownerId?: string };
+type StoreFile = Record<string, StoredConversation>;
+
+// One user's view of the store. Writes resolve to false when the conversation doesn't exist
+// or belongs to someone else, which the routes answer with a 404 either way.
+export interface UserConversationStore extends Pick<ConversationStore, 'list' | 'get'> {
+  save(conversation: ConversationRecord): Promise<boolean>;
+  rename(id: string, title: string): Promise<boolean>;
+  remove(id: string): Promise<boolean>;
+}
+
+const readStore = async (): Promise<StoreFile> => {
+  try {
+    return JSON.parse(await fs.readFile(STORE_FILE, 'utf-8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw e;
+  }
+};
+
+const writeStore = async (data: StoreFile): Promise<void> => {
+  await fs.mkdir(path.dirname(STORE_FILE), { recursive: true });
+  // Write to a temp file first so a crash never leaves a truncated store behind
+  const tempFile = `${STORE_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(data), 'utf-8');
+  await fs.rename(tempFile, STORE_FILE);
+};
+
+// Serialize read-modify-write cycles within this process
+let queue: Promise<unknown> = Promise.resolve();
+const update = <T>(mutate: (data: StoreFile) => T): Promise<T> => {
+  const next = queue.then(async () => {
+    const data = await readStore();
+    const result = mutate(data);
+    await writeStore(data);
+    return result;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+};
+
+// The owner stays on the server; clients get the conversation as they saved it
+const withoutOwner = (stored: StoredConversation): ConversationRecord => {
+  const record = { ...stored };
+  delete record.ownerId;
+  return record;
+};
+
+export const fileConversationStoreFor = (ownerId: string): UserConversationStore => {
+  const isOwn = (stored: StoredConversation | undefined): stored is StoredConversation => stored?.ownerId === ownerId;
+
+  return {
+    async list() {
+      return sortByRecent(Object.values(await readStore()).filter(isOwn).map(toSummary));
+    },
+
+    async get(id) {
+      const stored = (await readStore())[id];
+      return isOwn(stored) ? withoutOwner(stored) : null;
+    },
+
+    // Creates the conversation for this user, or replaces one of theirs; any ownerId in the payload is ignored
+    save(conversation) {
+      return update(data => {
+        const stored = data[conversation.id];
+        if (stored && !isOwn(stored)) return false;
+        data[conversation.id] = { ...conversation, ownerId };
+        return true;
+      });
+    },
+
+    rename(id, title) {
+      return update(data => {
+        const stored = data[id];
+        if (!isOwn(stored)) return false;
+        data[id] = { ...stored, title, updatedAt: new Date().toISOString() };
+        return true;
+      });
+    },
+
+    remove(id) {
+      return update(data => {
+        if (!isOwn(data[id])) return false;
+        delete data[id];
+        return true;
+      });
+    },
+  };
+};
+
+// The signed-in user's conversations, or null without a session
+export async function conversationStoreForRequest(
+  request: { cookies: { get(name: string): { value: string } | undefined } }
+): Promise<UserConversationStore | null> {
+  const user = await getSessionUser(request);
+  return user ? fileConversationStoreFor(user.id) : null;
+}
@@ -0,0 +1,11 @@
+import { indexedDbConversationStoreFor } from '@/lib/conversations/indexedDbStore';
+import { remoteConversationStore } from '@/lib/conversations/remoteStore';
+import { ConversationStore } from '@/lib/conversations/types';
+
+export * from '@/lib/conversations/types';
+
+// NEXT_PUBLIC_CONVERSATION_STORE=server keeps history in the server-side file store
+// instead of the browser's IndexedDB (the default). Either way a user only sees their own:
+// the server scopes by the session, the browser by a database per user.
+export const getConversationStore = (userId: string): ConversationStore =>
+  process.env.NEXT_PUBLIC_CONVERSATION_STORE === 'server' ? remoteConversationStore : indexedDbConversationStoreFor(userId);
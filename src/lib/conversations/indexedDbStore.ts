@@ -0,0 +1,71 @@
+import { ConversationRecord, ConversationStore, ConversationSummary, sortByRecent, toSummary } from '@/lib/conversations/types';
+
+// One database per user, so a shared browser never shows the previous user's history
+const dbName = (userId: string) => `insight-assistant:${userId}`;
+const DB_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+// Promise wrapper around an IDBRequest
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromises.delete(name); // Allow a later retry
+        reject(request.error);
+      };
+    });
+    dbPromises.set(name, dbPromise);
+  }
+  return dbPromise;
+};
+
+// Stores a user's conversations in the browser, per origin
+export const indexedDbConversationStoreFor = (userId: string): ConversationStore => {
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase(dbName(userId));
+    return requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  const conversationStore: ConversationStore = {
+    async list(): Promise<ConversationSummary[]> {
+      const records = await withStore<ConversationRecord[]>('readonly', store => store.getAll());
+      return sortByRecent(records.map(toSummary));
+    },
+
+    async get(id) {
+      const record = await withStore<ConversationRecord | undefined>('readonly', store => store.get(id));
+      return record ?? null;
+    },
+
+    async save(conversation) {
+      await withStore('readwrite', store => store.put(conversation));
+    },
+
+    async rename(id, title) {
+      const record = await conversationStore.get(id);
+      if (!record) return;
+      await conversationStore.save({ ...record, title, updatedAt: new Date().toISOString() });
+    },
+
+    async remove(id) {
+      await withStore('readwrite', store => store.delete(id));
+    },
+  };
+  return conversationStore;
+};
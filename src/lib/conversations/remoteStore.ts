@@ -0,0 +1,39 @@
+import { readApiError } from '@/lib/apiErrors';
+import { ConversationRecord, ConversationStore } from '@/lib/conversations/types';
+
+const BASE_URL = '/api/conversations';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  if (!response.ok) throw new Error((await readApiError(response)).message);
+  return response.json();
+};
+
+// Stores conversations on the Next.js server through /api/conversations
+export const remoteConversationStore: ConversationStore = {
+  list: () => request(BASE_URL),
+
+  async get(id) {
+    const response = await fetch(`${BASE_URL}/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to load conversation: HTTP error ${response.status}`);
+    return response.json() as Promise<ConversationRecord>;
+  },
+
+  async save(conversation) {
+    await request(`${BASE_URL}/${encodeURIComponent(conversation.id)}`, { method: 'PUT', body: JSON.stringify(conversation) });
+  },
+
+  async rename(id, title) {
+    await request(`${BASE_URL}/${encodeURIComponent(id)}`, { method: 'PATCH', body: JSON.stringify({ title }) });
+  },
+
+  async remove(id) {
+    const response = await fetch(`${BASE_URL}/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    // Already gone is as good as deleted
+    if (!response.ok && response.status !== 404) throw new Error(`Failed to delete conversation: HTTP error ${response.status}`);
+  },
+};
@@ -0,0 +1,31 @@
+import { ChatMessage, RunState } from '@/lib/chat/types';
+
+// A saved chat: the conversation plus every run's tables and graphs, so reopening it
+// restores the Data Explorer exactly as it was.
+export interface ConversationRecord {
+  id: string;
+  title: string;
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+  messages: ChatMessage[];
+  runs: Record<string, RunState>;
+  activeRunId: string | null;
+  nextMessageSeq: number;
+}
+
+export type ConversationSummary = Pick<ConversationRecord, 'id' | 'title' | 'createdAt' | 'updatedAt'>;
+
+// Storage backend for conversations (IndexedDB in the browser, or the /api/conversations file store)
+export interface ConversationStore {
+  list(): Promise<ConversationSummary[]>; // Most recently updated first
+  get(id: string): Promise<ConversationRecord | null>;
+  save(conversation: ConversationRecord): Promise<void>;
+  rename(id: string, title: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export const toSummary = ({ id, title, createdAt, updatedAt }: ConversationRecord): ConversationSummary =>
+  ({ id, title, createdAt, updatedAt });
+
+export const sortByRecent = (summaries: ConversationSummary[]): ConversationSummary[] =>
+  [...summaries].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
@@ -0,0 +1,99 @@
+// Derived columns: expressions evaluated in the browser on every row of a result, so
+// staging, export, pivots and charts all see them like any other column.
+import { DerivedColumn, QueryResult } from '@/lib/chat/types';
+import { evaluateExpression, Expression, ExpressionError, parseExpression, referencedColumns } from '@/lib/expressions';
+
+type DataRow = Record<string, unknown>;
+
+// Results are immutable in the chat state, so a result object always derives the same rows
+const derivedRowsCache = new WeakMap<QueryResult, DataRow[]>();
+
+/**
+ * The result's rows with its derived columns added. A row where an expression fails
+ * (e.g. a column missing from that row) gets null for that column.
+ */
+export function withDerivedColumns(result: QueryResult): DataRow[] {
+  const derivedColumns = result.derivedColumns ?? [];
+  if (derivedColumns.length === 0) return result.dataframe;
+  const cached = derivedRowsCache.get(result);
+  if (cached) return cached;
+
+  const parsed = derivedColumns.map(column => {
+    try {
+      return { name: column.name, expression: parseExpression(column.expression) };
+    } catch (error) {
+      console.warn(`[derivedColumns] Could not parse "${column.name}":`, error);
+      return { name: column.name, expression: null };
+    }
+  });
+  const rows = result.dataframe.map(source => {
+    const row: DataRow = { ...source };
+    // In order, so a derived column can use the ones defined before it
+    for (const { name, expression } of parsed) {
+      try {
+        row[name] = expression ? evaluateExpression(expression, row) : null;
+      } catch {
+        row[name] = null;
+      }
+    }
+    return row;
+  });
+  derivedRowsCache.set(result, rows);
+  return rows;
+}
+
+const identifier = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// How to refer to a column in an expression: `quoted` unless it's a plain word
+export const columnReference = (name: string) => identifier.test(name) ? name : `\`${name.replace(/`/g, '``')}\``;
+
+// Derived columns whose expressions read the given column
+export function dependentsOf(name: string, derivedColumns: DerivedColumn[]): string[] {
+  return derivedColumns.filter(column => {
+    try {
+      return referencedColumns(parseExpression(column.expression)).includes(name);
+    } catch {
+      return false;
+    }
+  }).map(column => column.name);
+}
+
+/**
+ * Checks a new or edited derived column against the result: a free name and an expression
+ * that parses and reads only existing columns. `replacing` is the name of the column being edited.
+ */
+export function validateDerivedColumn(
+  candidate: DerivedColumn,
+  result: QueryResult,
+  replacing?: string
+): { expression: Expression } | { error: string } {
+  const name = candidate.name.trim();
+  if (!name) return { error: 'Give the column a name.' };
+
+  const sourceColumns = Object.keys(result.dataframe[0] ?? {});
+  const derivedColumns = result.derivedColumns ?? [];
+  const otherDerived = derivedColumns.filter(column => column.name !== replacing);
+  if (sourceColumns.includes(name) || otherDerived.some(column => column.name === name)) {
+    return { error: `There is already a column named "${name}".` };
+  }
+  if (replacing && replacing !== name) {
+    const dependents = dependentsOf(replacing, derivedColumns);
+    if (dependents.length > 0) return { error: `Can't rename: ${dependents.join(', ')} use${dependents.length === 1 ? 's' : ''} "${replacing}".` };
+  }
+
+  let expression: Expression;
+  try {
+    expression = parseExpression(candidate.expression);
+  } catch (error) {
+    return { error: error instanceof ExpressionError ? error.message : 'Invalid expression.' };
+  }
+
+  // Only source columns and derived columns defined earlier exist when this one is computed
+  const position = replacing ? derivedColumns.findIndex(column => column.name === replacing) : derivedColumns.length;
+  const available = new Set([...sourceColumns, ...derivedColumns.slice(0, position).map(column => column.name)]);
+  const unknown = referencedColumns(expression).filter(column => !available.has(column));
+  if (unknown.length > 0) {
+    return { error: `Unknown column${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}` };
+  }
+  return { expression };
+}
@@ -0,0 +1,5 @@
+// Reads a non-negative integer setting, falling back when it is unset or invalid
+export const readIntEnv = (name: string, fallback: number) => {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
@@ -0,0 +1,455 @@
+// A small expression language for computed columns on query results, e.g.
+// `clicks / impressions` or `CASE WHEN spend > 100 THEN 'high' ELSE 'low' END`.
+// Expressions are parsed into a tree and interpreted against one row at a time; nothing
+// is ever handed to eval or Function, and only the functions listed below can be called.
+import { cellText } from '@/lib/tableFilters';
+import { DateGranularity, DATE_GRANULARITIES, periodStart } from '@/lib/tablePivot';
+
+export type Value = number | string | boolean | null;
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '=' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or';
+
+export type Expression =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'column'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'call'; name: string; args: Expression[] }
+  | { kind: 'case'; branches: { when: Expression; then: Expression }[]; otherwise: Expression | null };
+
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (at character ${position + 1})`);
+    this.name = 'ExpressionError';
+  }
+}
+
+// Keeps pathological input from exhausting the parser's stack
+const MAX_LENGTH = 2000;
+const MAX_DEPTH = 64;
+
+// --- Values ---
+
+const toNumber = (value: Value): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+};
+
+const toText = (value: Value): string | null => value === null ? null : String(value);
+
+// Conditions treat null (unknown) as false, like SQL's WHERE
+const isTruthy = (value: Value): boolean =>
+  value === true || (typeof value === 'number' && value !== 0) || (typeof value === 'string' && value !== '');
+
+const toDate = (value: Value): Date | null => {
+  if (value === null || typeof value === 'boolean') return null;
+  const time = typeof value === 'number' ? value : Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time);
+};
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Row values can be anything JSON; nested objects are compared and shown as their JSON
+const fromCell = (value: unknown): Value => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+  return cellText(value);
+};
+
+// --- Functions ---
+
+interface FunctionDefinition {
+  minArgs: number;
+  maxArgs: number;
+  call: (args: Value[]) => Value;
+}
+
+const numeric = (fn: (...numbers: number[]) => number) => (args: Value[]): Value => {
+  const numbers = args.map(toNumber);
+  if (numbers.some(number => number === null)) return null;
+  const result = fn(...(numbers as number[]));
+  return Number.isFinite(result) ? result : null;
+};
+
+const text = (fn: (...texts: string[]) => Value) => (args: Value[]): Value => {
+  const texts = args.map(toText);
+  return texts.some(t => t === null) ? null : fn(...(texts as string[]));
+};
+
+const datePart = (fn: (date: Date) => number) => (args: Value[]): Value => {
+  const date = toDate(args[0]);
+  return date ? fn(date) : null;
+};
+
+const FUNCTION_DEFINITIONS: Record<string, FunctionDefinition> = {
+  // Conditionals and nulls
+  if: { minArgs: 3, maxArgs: 3, call: ([condition, then, otherwise]) => isTruthy(condition) ? then : otherwise },
+  coalesce: { minArgs: 1, maxArgs: Infinity, call: args => args.find(arg => arg !== null) ?? null },
+  nullif: { minArgs: 2, maxArgs: 2, call: ([a, b]) => compareValues(a, b) === 0 ? null : a },
+  is_null: { minArgs: 1, maxArgs: 1, call: ([value]) => value === null },
+  // Math
+  abs: { minArgs: 1, maxArgs: 1, call: numeric(Math.abs) },
+  round: { minArgs: 1, maxArgs: 2, call: numeric((x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits) },
+  floor: { minArgs: 1, maxArgs: 1, call: numeric(Math.floor) },
+  ceil: { minArgs: 1, maxArgs: 1, call: numeric(Math.ceil) },
+  sqrt: { minArgs: 1, maxArgs: 1, call: numeric(Math.sqrt) },
+  pow: { minArgs: 2, maxArgs: 2, call: numeric(Math.pow) },
+  ln: { minArgs: 1, maxArgs: 1, call: numeric(Math.log) },
+  log10: { minArgs: 1, maxArgs: 1, call: numeric(Math.log10) },
+  least: { minArgs: 1, maxArgs: Infinity, call: numeric(Math.min) },
+  greatest: { minArgs: 1, maxArgs: Infinity, call: numeric(Math.max) },
+  number: { minArgs: 1, maxArgs: 1, call: ([value]) => toNumber(value) },
+  // Text
+  text: { minArgs: 1, maxArgs: 1, call: ([value]) => toText(value) },
+  lower: { minArgs: 1, maxArgs: 1, call: text(s => s.toLowerCase()) },
+  upper: { minArgs: 1, maxArgs: 1, call: text(s => s.toUpperCase()) },
+  trim: { minArgs: 1, maxArgs: 1, call: text(s => s.trim()) },
+  length: { minArgs: 1, maxArgs: 1, call: text(s => s.length) },
+  concat: { minArgs: 1, maxArgs: Infinity, call: args => args.map(arg => toText(arg) ?? '').join('') },
+  contains: { minArgs: 2, maxArgs: 2, call: text((s, part) => s.toLowerCase().includes(part.toLowerCase())) },
+  starts_with: { minArgs: 2, maxArgs: 2, call: text((s, prefix) => s.startsWith(prefix)) },
+  ends_with: { minArgs: 2, maxArgs: 2, call: text((s, suffix) => s.endsWith(suffix)) },
+  replace: { minArgs: 3, maxArgs: 3, call: text((s, from, to) => from === '' ? s : s.split(from).join(to)) },
+  // 1-based like SQL: substr('campaign', 1, 4) = 'camp'
+  substr: {
+    minArgs: 2, maxArgs: 3, call: ([value, start, length]) => {
+      const s = toText(value), from = toNumber(start), count = length === undefined ? undefined : toNumber(length);
+      if (s === null || from === null || count === null) return null;
+      const begin = Math.max(0, from - 1);
+      return count === undefined ? s.slice(begin) : s.slice(begin, begin + Math.max(0, count));
+    },
+  },
+  // split_part('brand_us_search', '_', 2) = 'us'
+  split_part: {
+    minArgs: 3, maxArgs: 3, call: ([value, delimiter, index]) => {
+      const s = toText(value), separator = toText(delimiter), n = toNumber(index);
+      if (s === null || separator === null || n === null) return null;
+      return s.split(separator)[n - 1] ?? null;
+    },
+  },
+  // Dates
+  today: { minArgs: 0, maxArgs: 0, call: () => isoDate(new Date()) },
+  year: { minArgs: 1, maxArgs: 1, call: datePart(date => date.getUTCFullYear()) },
+  month: { minArgs: 1, maxArgs: 1, call: datePart(date => date.getUTCMonth() + 1) },
+  day: { minArgs: 1, maxArgs: 1, call: datePart(date => date.getUTCDate()) },
+  weekday: { minArgs: 1, maxArgs: 1, call: datePart(date => (date.getUTCDay() + 6) % 7 + 1) }, // 1 = Monday
+  date_trunc: {
+    minArgs: 2, maxArgs: 2, call: ([unit, value]) => {
+      const granularity = toText(unit)?.toLowerCase();
+      if (!granularity || !DATE_GRANULARITIES.includes(granularity as DateGranularity)) {
+        throw new ExpressionError(`date_trunc unit must be one of ${DATE_GRANULARITIES.join(', ')}`);
+      }
+      return value === null || typeof value === 'boolean' ? null : periodStart(value, granularity as DateGranularity) ?? null;
+    },
+  },
+  date_add: {
+    minArgs: 2, maxArgs: 2, call: ([value, days]) => {
+      const date = toDate(value), count = toNumber(days);
+      return date && count !== null ? isoDate(new Date(date.getTime() + count * DAY_MS)) : null;
+    },
+  },
+  date_diff: {
+    minArgs: 2, maxArgs: 2, call: ([end, start]) => {
+      const to = toDate(end), from = toDate(start);
+      return to && from ? Math.round((to.getTime() - from.getTime()) / DAY_MS) : null;
+    },
+  },
+};
+
+// A null prototype, so names like "constructor" or "__proto__" are never found
+const FUNCTIONS: Record<string, FunctionDefinition> = Object.assign(Object.create(null), FUNCTION_DEFINITIONS);
+
+export const FUNCTION_NAMES = Object.keys(FUNCTIONS).sort();
+
+// --- Tokenizer ---
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'identifier'; value: string; quoted: boolean; position: number }
+  | { type: 'operator'; value: string; position: number }
+  | { type: 'end'; position: number };
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '==', '&&', '||', '(', ')', ',', '+', '-', '*', '/', '%', '=', '<', '>', '!'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: start });
+      i += number[0].length;
+      continue;
+    }
+    // 'text' or "text"; a quote is escaped by doubling it, as in SQL
+    if (char === "'" || char === '"' || char === '`') {
+      let value = '';
+      i++;
+      while (true) {
+        if (i >= source.length) throw new ExpressionError(char === '`' ? 'Unclosed column name' : 'Unclosed string', start);
+        if (source[i] === char) {
+          if (source[i + 1] !== char) break;
+          i++;
+        }
+        value += source[i++];
+      }
+      i++;
+      // `column name` quotes a column whose name isn't a plain word
+      tokens.push(char === '`' ? { type: 'identifier', value, quoted: true, position: start } : { type: 'string', value, position: start });
+      continue;
+    }
+    const word = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+    if (word) {
+      tokens.push({ type: 'identifier', value: word[0], quoted: false, position: start });
+      i += word[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) throw new ExpressionError(`Unexpected character "${char}"`, i);
+    tokens.push({ type: 'operator', value: operator, position: start });
+    i += operator.length;
+  }
+  tokens.push({ type: 'end', position: source.length });
+  return tokens;
+}
+
+// --- Parser ---
+
+// Binding power of each infix operator (higher binds tighter) and the operator it stands for
+const INFIX: Record<string, { power: number; operator: BinaryOperator }> = {
+  or: { power: 1, operator: 'or' }, '||': { power: 1, operator: 'or' },
+  and: { power: 2, operator: 'and' }, '&&': { power: 2, operator: 'and' },
+  '=': { power: 3, operator: '=' }, '==': { power: 3, operator: '=' }, '!=': { power: 3, operator: '!=' }, '<>': { power: 3, operator: '!=' },
+  '<': { power: 3, operator: '<' }, '<=': { power: 3, operator: '<=' }, '>': { power: 3, operator: '>' }, '>=': { power: 3, operator: '>=' },
+  '+': { power: 4, operator: '+' }, '-': { power: 4, operator: '-' },
+  '*': { power: 5, operator: '*' }, '/': { power: 5, operator: '/' }, '%': { power: 5, operator: '%' },
+};
+const PREFIX_POWER = 6;
+// As in SQL, NOT takes a whole comparison (NOT spend > 100 is NOT (spend > 100)) but not an AND/OR after it
+const NOT_POWER = 2;
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'case', 'when', 'then', 'else', 'end', 'true', 'false', 'null']);
+
+/**
+ * Parses an expression, checking function names and argument counts up front.
+ * Throws an ExpressionError pointing at the offending character.
+ */
+export function parseExpression(source: string): Expression {
+  if (source.length > MAX_LENGTH) throw new ExpressionError(`Expressions are limited to ${MAX_LENGTH} characters`);
+  const tokens = tokenize(source);
+  let index = 0;
+  let depth = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const keywordOf = (token: Token) => token.type === 'identifier' && !token.quoted ? token.value.toLowerCase() : null;
+  const isOperator = (token: Token, value: string) => token.type === 'operator' && token.value === value;
+  const describe = (token: Token) => token.type === 'end' ? 'end of expression' : `"${'value' in token ? token.value : ''}"`;
+
+  const expectKeyword = (keyword: string) => {
+    const token = next();
+    if (keywordOf(token) !== keyword) throw new ExpressionError(`Expected ${keyword.toUpperCase()} but found ${describe(token)}`, token.position);
+  };
+  const expectOperator = (value: string) => {
+    const token = next();
+    if (!isOperator(token, value)) throw new ExpressionError(`Expected "${value}" but found ${describe(token)}`, token.position);
+  };
+
+  const parseCase = (): Expression => {
+    const branches: { when: Expression; then: Expression }[] = [];
+    while (keywordOf(peek()) === 'when') {
+      next();
+      const when = parse(0);
+      expectKeyword('then');
+      branches.push({ when, then: parse(0) });
+    }
+    if (branches.length === 0) throw new ExpressionError('CASE needs at least one WHEN ... THEN ...', peek().position);
+    let otherwise: Expression | null = null;
+    if (keywordOf(peek()) === 'else') {
+      next();
+      otherwise = parse(0);
+    }
+    expectKeyword('end');
+    return { kind: 'case', branches, otherwise };
+  };
+
+  const parseCall = (name: string, position: number): Expression => {
+    const definition = FUNCTIONS[name.toLowerCase()];
+    if (!definition) throw new ExpressionError(`Unknown function "${name}"`, position);
+    const args: Expression[] = [];
+    if (!isOperator(peek(), ')')) {
+      while (true) {
+        args.push(parse(0));
+        if (!isOperator(peek(), ',')) break;
+        next();
+      }
+    }
+    expectOperator(')');
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs ? `${definition.minArgs}`
+        : definition.maxArgs === Infinity ? `at least ${definition.minArgs}` : `${definition.minArgs} to ${definition.maxArgs}`;
+      throw new ExpressionError(`${name.toLowerCase()}() takes ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`, position);
+    }
+    return { kind: 'call', name: name.toLowerCase(), args };
+  };
+
+  const parsePrefix = (): Expression => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+      case 'string':
+        return { kind: 'literal', value: token.value };
+      case 'identifier': {
+        const keyword = keywordOf(token);
+        if (keyword === 'true' || keyword === 'false') return { kind: 'literal', value: keyword === 'true' };
+        if (keyword === 'null') return { kind: 'literal', value: null };
+        if (keyword === 'not') return { kind: 'unary', operator: 'not', operand: parse(NOT_POWER) };
+        if (keyword === 'case') return parseCase();
+        if (keyword && KEYWORDS.has(keyword)) throw new ExpressionError(`Unexpected ${keyword.toUpperCase()}`, token.position);
+        if (!token.quoted && isOperator(peek(), '(')) {
+          next();
+          return parseCall(token.value, token.position);
+        }
+        return { kind: 'column', name: token.value };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = parse(0);
+          expectOperator(')');
+          return inner;
+        }
+        if (token.value === '-') return { kind: 'unary', operator: '-', operand: parse(PREFIX_POWER) };
+        if (token.value === '!') return { kind: 'unary', operator: 'not', operand: parse(NOT_POWER) };
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new ExpressionError('Expression is incomplete', token.position);
+    }
+  };
+
+  // Pratt parser: keeps folding infix operators that bind tighter than minPower
+  function parse(minPower: number): Expression {
+    if (++depth > MAX_DEPTH) throw new ExpressionError('Expression is nested too deeply', peek().position);
+    let left = parsePrefix();
+    while (true) {
+      const token = peek();
+      const symbol = token.type === 'operator' ? token.value : keywordOf(token);
+      const infix = symbol !== null ? INFIX[symbol] : undefined;
+      if (!infix || infix.power <= minPower) break;
+      next();
+      left = { kind: 'binary', operator: infix.operator, left, right: parse(infix.power) };
+    }
+    depth--;
+    return left;
+  }
+
+  const expression = parse(0);
+  const rest = peek();
+  if (rest.type !== 'end') throw new ExpressionError(`Unexpected ${describe(rest)}`, rest.position);
+  return expression;
+}
+
+// Columns an expression reads, to check them against the table before it's added
+export function referencedColumns(expression: Expression): string[] {
+  switch (expression.kind) {
+    case 'literal':
+      return [];
+    case 'column':
+      return [expression.name];
+    case 'unary':
+      return referencedColumns(expression.operand);
+    case 'binary':
+      return [...new Set([...referencedColumns(expression.left), ...referencedColumns(expression.right)])];
+    case 'call':
+      return [...new Set(expression.args.flatMap(referencedColumns))];
+    case 'case':
+      return [...new Set([
+        ...expression.branches.flatMap(branch => [...referencedColumns(branch.when), ...referencedColumns(branch.then)]),
+        ...(expression.otherwise ? referencedColumns(expression.otherwise) : []),
+      ])];
+  }
+}
+
+// --- Evaluation ---
+
+// Numbers compare as numbers, anything else as text (so ISO dates order correctly)
+function compareValues(a: Value, b: Value): number | null {
+  if (a === null || b === null) return null;
+  const x = toNumber(a), y = toNumber(b);
+  if (typeof a !== 'string' || typeof b !== 'string') {
+    if (x !== null && y !== null) return x - y;
+  }
+  const left = String(a), right = String(b);
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+const applyBinary = (operator: BinaryOperator, left: Value, right: Value): Value => {
+  switch (operator) {
+    case 'and':
+      return isTruthy(left) && isTruthy(right);
+    case 'or':
+      return isTruthy(left) || isTruthy(right);
+    case '=':
+    case '!=':
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      const order = compareValues(left, right);
+      if (order === null) return null;
+      return { '=': order === 0, '!=': order !== 0, '<': order < 0, '<=': order <= 0, '>': order > 0, '>=': order >= 0 }[operator];
+    }
+  }
+  // Arithmetic: a missing operand, or dividing by zero, gives null rather than an error
+  const x = toNumber(left), y = toNumber(right);
+  if (x === null || y === null) return null;
+  switch (operator) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    case '/': return y === 0 ? null : x / y;
+    case '%': return y === 0 ? null : x % y;
+  }
+};
+
+/**
+ * Evaluates a parsed expression against one row. Unknown columns and bad date_trunc
+ * units throw an ExpressionError; type mismatches evaluate to null.
+ */
+export function evaluateExpression(expression: Expression, row: Record<string, unknown>): Value {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'column':
+      if (!Object.prototype.hasOwnProperty.call(row, expression.name)) throw new ExpressionError(`Unknown column "${expression.name}"`);
+      return fromCell(row[expression.name]);
+    case 'unary': {
+      const operand = evaluateExpression(expression.operand, row);
+      if (expression.operator === 'not') return operand === null ? null : !isTruthy(operand);
+      const number = toNumber(operand);
+      return number === null ? null : -number;
+    }
+    case 'binary':
+      return applyBinary(expression.operator, evaluateExpression(expression.left, row), evaluateExpression(expression.right, row));
+    case 'call':
+      return FUNCTIONS[expression.name].call(expression.args.map(arg => evaluateExpression(arg, row)));
+    case 'case': {
+      const branch = expression.branches.find(({ when }) => isTruthy(evaluateExpression(when, row)));
+      if (branch) return evaluateExpression(branch.then, row);
+      return expression.otherwise ? evaluateExpression(expression.otherwise, row) : null;
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { memoryRateLimitStore } from '@/lib/rateLimit/memoryStore';
+import { RateLimitResult, RateLimitRule, RateLimitStore } from '@/lib/rateLimit/types';
+
+export * from '@/lib/rateLimit/types';
+
+// Register shared stores here and select them with RATE_LIMIT_STORE
+const rateLimitStores: Record<string, RateLimitStore> = {
+  memory: memoryRateLimitStore,
+};
+
+export function getRateLimitStore(): RateLimitStore {
+  const storeId = process.env.RATE_LIMIT_STORE || 'memory';
+  const store = rateLimitStores[storeId];
+  if (!store) {
+    throw new Error(`Unknown RATE_LIMIT_STORE "${storeId}".`);
+  }
+  return store;
+}
+
+/**
+ * Counts one request against every rule. The request is rejected if any rule is
+ * exceeded; retryAfterSeconds is the wait until the longest exceeded window resets.
+ */
+export async function checkRateLimits(rules: RateLimitRule[], store = getRateLimitStore()): Promise<RateLimitResult> {
+  const now = Date.now();
+  const hits = await Promise.all(rules.map(async rule => ({ rule, hit: await store.hit(rule.key, rule.windowMs) })));
+  const exceeded = hits
+    .filter(({ rule, hit }) => hit.count > rule.limit)
+    .sort((a, b) => b.hit.resetAt - a.hit.resetAt)[0];
+  if (!exceeded) return { allowed: true };
+  return {
+    allowed: false,
+    rule: exceeded.rule,
+    retryAfterSeconds: Math.max(1, Math.ceil((exceeded.hit.resetAt - now) / 1000)),
+  };
+}
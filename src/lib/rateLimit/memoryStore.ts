@@ -0,0 +1,27 @@
+import { RateLimitHit, RateLimitStore } from '@/lib/rateLimit/types';
+
+// Drop expired windows once the map grows past this, so idle keys don't accumulate
+const PRUNE_THRESHOLD = 10000;
+
+const windows = new Map<string, RateLimitHit>();
+
+const pruneExpired = (now: number) => {
+  for (const [key, window] of windows) {
+    if (window.resetAt <= now) windows.delete(key);
+  }
+};
+
+// Fixed-window counters in the memory of this server process
+export const memoryRateLimitStore: RateLimitStore = {
+  async hit(key, windowMs) {
+    const now = Date.now();
+    if (windows.size > PRUNE_THRESHOLD) pruneExpired(now);
+
+    const current = windows.get(key);
+    const next = current && current.resetAt > now
+      ? { count: current.count + 1, resetAt: current.resetAt }
+      : { count: 1, resetAt: now + windowMs };
+    windows.set(key, next);
+    return next;
+  },
+};
@@ -0,0 +1,20 @@
+export interface RateLimitHit {
+  count: number; // Requests in the current window, including this one
+  resetAt: number; // Epoch ms when the window ends
+}
+
+// Counter backend for rate limits. The in-memory store only covers a single server
+// process; a shared store (e.g. Redis) can implement the same interface.
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+export interface RateLimitRule {
+  key: string; // e.g. "chat:user:<id>" or "chat:ip:<address>"
+  limit: number; // Max requests per window
+  windowMs: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; rule: RateLimitRule; retryAfterSeconds: number };
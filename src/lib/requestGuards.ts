@@ -0,0 +1,110 @@
+// Abuse guards for the chat proxy: per-user and per-IP rate limits, a payload
+// size cap and a cap on the number of staged context rows.
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/agentProxy';
+import { readIntEnv } from '@/lib/env';
+import { checkRateLimits } from '@/lib/rateLimit';
+
+const RATE_LIMIT_WINDOW_MS = readIntEnv('CHAT_RATE_LIMIT_WINDOW_MS', 60000);
+const RATE_LIMIT_PER_USER = readIntEnv('CHAT_RATE_LIMIT_PER_USER', 20);
+// Higher than the per-user limit: several users may share an office NAT
+const RATE_LIMIT_PER_IP = readIntEnv('CHAT_RATE_LIMIT_PER_IP', 60);
+export const MAX_PAYLOAD_BYTES = readIntEnv('CHAT_MAX_PAYLOAD_BYTES', 256 * 1024);
+export const MAX_CONTEXT_ROWS = readIntEnv('CHAT_MAX_CONTEXT_ROWS', 200);
+// Reverse proxies in front of the app that append to X-Forwarded-For (0: not behind a proxy)
+const TRUSTED_PROXY_COUNT = readIntEnv('TRUSTED_PROXY_COUNT', 0);
+// Or a header the hosting platform sets to the client address itself, e.g. cf-connecting-ip
+const CLIENT_IP_HEADER = process.env.CLIENT_IP_HEADER?.trim().toLowerCase();
+
+/**
+ * The client's address for per-IP limits, or null when no trustworthy one is known.
+ * The client can put anything in X-Forwarded-For, so only the entry appended by the outermost
+ * trusted proxy is used: with N trusted proxies, the Nth from the right. Without a configured
+ * proxy or header there is nothing to go on: Next only fills in X-Forwarded-For from the socket
+ * when the request doesn't already carry one, and X-Real-IP is whatever the client sent.
+ */
+export function getClientIp(request: NextRequest): string | null {
+  if (CLIENT_IP_HEADER) {
+    return request.headers.get(CLIENT_IP_HEADER)?.trim() || null;
+  }
+  if (TRUSTED_PROXY_COUNT > 0) {
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+    // Fewer hops than proxies means the chain skipped one; the leftmost is still proxy-written
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_COUNT)] || null;
+  }
+  return null;
+}
+
+// Returns a 429 response if the user or their IP exceeded the chat rate limit, otherwise null.
+// Without a trustworthy client address only the per-user limit applies: a shared "unknown"
+// bucket would let one user exhaust the limit for everyone.
+export async function enforceChatRateLimits(request: NextRequest, userId: string): Promise<NextResponse | null> {
+  const clientIp = getClientIp(request);
+  const result = await checkRateLimits([
+    { key: `chat:user:${userId}`, limit: RATE_LIMIT_PER_USER, windowMs: RATE_LIMIT_WINDOW_MS },
+    ...(clientIp ? [{ key: `chat:ip:${clientIp}`, limit: RATE_LIMIT_PER_IP, windowMs: RATE_LIMIT_WINDOW_MS }] : []),
+  ]);
+  if (result.allowed) return null;
+
+  console.warn(`Rate limit exceeded for ${result.rule.key}; retry after ${result.retryAfterSeconds}s`);
+  return errorResponse(
+    'rate_limited',
+    'You are sending messages too quickly.',
+    429,
+    true,
+    result.retryAfterSeconds
+  );
+}
+
+// The body as text, or null as soon as it grows past maxBytes (chunked uploads have no Content-Length)
+async function readBodyText(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(totalBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Reads a JSON body of at most maxBytes. Oversized bodies are rejected with 413
+ * before parsing: up front when Content-Length says so, otherwise once the bytes read pass the cap.
+ */
+export async function readJsonBody(request: NextRequest, maxBytes = MAX_PAYLOAD_BYTES): Promise<{ body: unknown } | { response: NextResponse }> {
+  const tooLarge = () => ({
+    response: errorResponse('payload_too_large', `Your message is too large (the limit is ${Math.round(maxBytes / 1024)} KB). Attach fewer rows or a smaller table.`, 413),
+  });
+
+  const declaredLength = Number.parseInt(request.headers.get('content-length') ?? '', 10);
+  if (Number.isFinite(declaredLength) && declaredLength > maxBytes) return tooLarge();
+
+  const text = await readBodyText(request, maxBytes);
+  if (text === null) return tooLarge();
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { response: errorResponse('bad_request', 'Request body must be JSON', 400) };
+  }
+}
+
+// Total rows across table and whole-result attachments
+export const countAttachmentRows = (attachments: unknown[]) =>
+  attachments.reduce<number>((total, attachment) => {
+    const rows = (attachment as { rows?: unknown })?.rows;
+    return total + (Array.isArray(rows) ? rows.length : 0);
+  }, 0);
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { toCsv } from '@/lib/tableExport';
+
+describe('toCsv', () => {
+  it('neutralises text that a spreadsheet would run as a formula', () => {
+    const rows = [
+      { campaign: '=HYPERLINK("http://evil.example","click")' },
+      { campaign: '+1+1' },
+      { campaign: '-2+3' },
+      { campaign: '@SUM(A1:A2)' },
+      { campaign: '\tindent' },
+    ];
+    expect(toCsv(rows, ['campaign']).split('\r\n').slice(1)).toEqual([
+      `"'=HYPERLINK(""http://evil.example"",""click"")"`,
+      "'+1+1",
+      "'-2+3",
+      "'@SUM(A1:A2)",
+      "'\tindent",
+    ]);
+  });
+
+  it('leaves numbers and ordinary text alone', () => {
+    const rows = [{ name: 'Brand - Search', spend: -12.5, delta: '-3', note: 'a, b' }];
+    expect(toCsv(rows, ['name', 'spend', 'delta', 'note'])).toBe('name,spend,delta,note\r\nBrand - Search,-12.5,-3,"a, b"');
+  });
+});
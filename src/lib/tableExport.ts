@@ -0,0 +1,93 @@
+// Table Viewer exports. Callers pass the rows and columns as shown (sorted, filtered,
+// selected, visible columns only); this module only formats and downloads them.
+import { cellFormatting, ColumnRange, ConditionalFormats, xlsxCellStyle } from '@/lib/conditionalFormats';
+import { cellText } from '@/lib/tableFilters';
+import type { Cell, SheetData } from 'write-excel-file/browser';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+type DataRow = Record<string, unknown>;
+
+// Conditional formats as shown, with the column ranges they were computed over
+export interface ExportFormatting {
+  formats: ConditionalFormats;
+  ranges: Record<string, ColumnRange>;
+}
+
+const MAX_NAME_LENGTH = 80;
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// e.g. google_spend_and_conversions_by_campaign_2024-05-07.xlsx
+export function exportFileName(objective: string, platform: string | undefined, format: ExportFormat): string {
+  const name = [platform, objective].filter(Boolean).map(part => slugify(part as string)).filter(Boolean).join('_');
+  const date = new Date().toISOString().slice(0, 10);
+  return `${name.slice(0, MAX_NAME_LENGTH) || 'table'}_${date}.${EXPORT_FORMATS[format].extension}`;
+}
+
+// Spreadsheets run text starting with these as a formula; ad platform values (campaign names, ...) are untrusted
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+const csvField = (value: unknown) => {
+  let text = cellText(value);
+  // A leading apostrophe makes the spreadsheet show the text as is; numbers (including numeric strings) stay numbers
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: DataRow[], columns: string[]): string {
+  return [columns.map(csvField).join(','), ...rows.map(row => columns.map(column => csvField(row[column])).join(','))].join('\r\n');
+}
+
+// Keeps only the exported columns, in their on-screen order
+export const toJson = (rows: DataRow[], columns: string[]): string =>
+  JSON.stringify(rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? null]))), null, 2);
+
+async function toXlsx(rows: DataRow[], columns: string[], formatting?: ExportFormatting): Promise<Blob> {
+  // Loaded on demand: only needed when someone exports to Excel
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+  // Numbers and booleans stay typed so spreadsheets can compute with them; anything else is text
+  const toCell = (value: unknown) =>
+    typeof value === 'number' || typeof value === 'boolean' ? value : value === null || value === undefined ? null : cellText(value);
+  // Conditionally formatted cells keep their colors
+  const toStyledCell = (row: DataRow, column: string): Cell => {
+    const value = toCell(row[column]);
+    const cellFormat = formatting && cellFormatting(row, column, formatting.formats[column], formatting.ranges[column]);
+    return cellFormat ? { value: value ?? undefined, ...xlsxCellStyle(cellFormat) } : value;
+  };
+  const sheetData: SheetData = [
+    columns.map(column => ({ value: column, fontWeight: 'bold' as const })),
+    ...rows.map(row => columns.map(column => toStyledCell(row, column))),
+  ];
+  return writeXlsxFile(sheetData, { sheet: 'Results', stickyRowsCount: 1 }).toBlob();
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export async function exportRows(
+  format: ExportFormat,
+  rows: DataRow[],
+  columns: string[],
+  source: { objective: string; platform?: string },
+  formatting?: ExportFormatting // Only XLSX carries formatting
+): Promise<void> {
+  const { mimeType } = EXPORT_FORMATS[format];
+  const blob = format === 'xlsx'
+    ? await toXlsx(rows, columns, formatting)
+    : new Blob([format === 'csv' ? toCsv(rows, columns) : toJson(rows, columns)], { type: mimeType });
+  downloadBlob(blob, exportFileName(source.objective, source.platform, format));
+}
@@ -0,0 +1,90 @@
+// Column filters for the Table Viewer. Each column gets the kind of filter that matches its
+// column profile, so a column shown as a number or a date is also filtered as one.
+import { ColumnType, NUMERIC_COLUMN_TYPES } from '@/lib/columnProfile';
+
+export type ColumnKind = 'number' | 'date' | 'category' | 'text';
+
+export type ColumnFilterValue =
+  | { kind: 'text'; contains: string }
+  | { kind: 'number'; min?: number; max?: number }
+  | { kind: 'date'; from?: string; to?: string } // YYYY-MM-DD, inclusive
+  | { kind: 'category'; values: string[] };
+
+// A column with at most this many distinct values (and mostly repeats) is filtered by picking values
+const MAX_CATEGORY_VALUES = 20;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Text used to match and display a cell; objects are matched on their JSON
+export const cellText = (value: unknown): string => {
+  if (isBlank(value)) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+/**
+ * How a column is filtered, from its display type (after any format override) and its values.
+ */
+export function filterKindFor(type: ColumnType, values: unknown[]): ColumnKind {
+  if (NUMERIC_COLUMN_TYPES.includes(type)) return 'number';
+  if (type === 'date' || type === 'datetime') return 'date';
+  const present = values.filter(value => !isBlank(value));
+  const distinct = new Set(present.map(cellText)).size;
+  if (distinct <= MAX_CATEGORY_VALUES && distinct < present.length) return 'category';
+  return 'text';
+}
+
+export function matchesColumnFilter(value: unknown, filter: ColumnFilterValue): boolean {
+  switch (filter.kind) {
+    case 'text':
+      return cellText(value).toLowerCase().includes(filter.contains.toLowerCase());
+    case 'number': {
+      // Numeric strings count, as they do when the cell is formatted
+      const number = toNumber(value);
+      if (number === undefined) return false;
+      return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+    }
+    case 'date': {
+      // Compare the date part only, so a "to" date includes that whole day
+      const day = typeof value === 'string' ? value.slice(0, 10) : '';
+      if (!day) return false;
+      return (!filter.from || day >= filter.from) && (!filter.to || day <= filter.to);
+    }
+    case 'category':
+      return filter.values.includes(cellText(value));
+  }
+}
+
+// A filter that no longer restricts anything is removed rather than kept around
+export function isEmptyFilter(filter: ColumnFilterValue): boolean {
+  switch (filter.kind) {
+    case 'text':
+      return filter.contains.trim() === '';
+    case 'number':
+      return filter.min === undefined && filter.max === undefined;
+    case 'date':
+      return !filter.from && !filter.to;
+    case 'category':
+      return filter.values.length === 0;
+  }
+}
+
+// Chip label, e.g. `spend: 10 – 100` or `campaign: Brand Search, Shopping`
+export function describeColumnFilter(column: string, filter: ColumnFilterValue): string {
+  const range = (from: string | number | undefined, to: string | number | undefined) =>
+    from !== undefined && to !== undefined ? `${from} – ${to}` : from !== undefined ? `≥ ${from}` : `≤ ${to}`;
+  switch (filter.kind) {
+    case 'text':
+      return `${column} contains "${filter.contains}"`;
+    case 'number':
+      return `${column}: ${range(filter.min, filter.max)}`;
+    case 'date':
+      return `${column}: ${range(filter.from || undefined, filter.to || undefined)}`;
+    case 'category':
+      return `${column}: ${filter.values.join(', ')}`;
+  }
+}
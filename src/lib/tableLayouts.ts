@@ -0,0 +1,80 @@
+// Table Viewer column layouts, remembered per objective in localStorage so asking the
+// same question again brings back the same columns, order, widths, pins and conditional formats.
+import { ConditionalFormats, isConditionalFormatRule } from '@/lib/conditionalFormats';
+
+export interface TableLayout {
+  columnOrder: string[];
+  columnVisibility: Record<string, boolean>;
+  columnSizing: Record<string, number>;
+  pinnedColumns: string[]; // Pinned to the left, in order
+  conditionalFormats: ConditionalFormats;
+}
+
+interface StoredLayout {
+  layout: TableLayout;
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'agentic-dashboard:table-layouts';
+// Oldest layouts are dropped past this many objectives
+const MAX_LAYOUTS = 50;
+
+// "Spend by campaign " and "spend by  Campaign" are the same question
+const layoutKey = (objective: string) => objective.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Storage can be unavailable (private mode, disabled) or full; layouts are a convenience, so failures are only logged
+const readLayouts = (): Record<string, StoredLayout> => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as Record<string, StoredLayout> : {};
+  } catch (error) {
+    console.warn('[tableLayouts] Could not read saved layouts:', error);
+    return {};
+  }
+};
+
+const writeLayouts = (layouts: Record<string, StoredLayout>) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  } catch (error) {
+    console.warn('[tableLayouts] Could not save layouts:', error);
+  }
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRecordOf = <T>(value: unknown, isItem: (item: unknown) => item is T): value is Record<string, T> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isItem);
+
+export function loadTableLayout(objective: string): TableLayout | null {
+  const layout = readLayouts()[layoutKey(objective)]?.layout;
+  // Anything saved by an older version (or edited by hand) that doesn't fit is ignored
+  if (
+    !layout ||
+    !isStringArray(layout.columnOrder) ||
+    !isStringArray(layout.pinnedColumns) ||
+    !isRecordOf(layout.columnVisibility, (item): item is boolean => typeof item === 'boolean') ||
+    !isRecordOf(layout.columnSizing, (item): item is number => typeof item === 'number')
+  ) {
+    return null;
+  }
+  // Layouts saved before conditional formats existed have none
+  const conditionalFormats = isRecordOf(layout.conditionalFormats, (item): item is unknown[] => Array.isArray(item))
+    ? Object.fromEntries(Object.entries(layout.conditionalFormats).map(([column, rules]) => [column, rules.filter(isConditionalFormatRule)]))
+    : {};
+  return { ...layout, conditionalFormats };
+}
+
+export function saveTableLayout(objective: string, layout: TableLayout): void {
+  const layouts = { ...readLayouts(), [layoutKey(objective)]: { layout, savedAt: Date.now() } };
+  const newest = Object.entries(layouts).sort(([, a], [, b]) => b.savedAt - a.savedAt).slice(0, MAX_LAYOUTS);
+  writeLayouts(Object.fromEntries(newest));
+}
+
+export function clearTableLayout(objective: string): void {
+  const layouts = readLayouts();
+  delete layouts[layoutKey(objective)];
+  writeLayouts(layouts);
+}
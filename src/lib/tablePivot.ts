@@ -0,0 +1,190 @@
+// Group-by and pivot for query results, computed in the browser from the (filtered) rows
+// of a result, e.g. "spend by platform by week" from a flat daily_metrics table.
+import { cellText } from '@/lib/tableFilters';
+
+type DataRow = Record<string, unknown>;
+
+export type Aggregation = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'distinct';
+export type DateGranularity = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  min: 'Min',
+  max: 'Max',
+  count: 'Count',
+  distinct: 'Distinct count',
+};
+
+export const DATE_GRANULARITIES: DateGranularity[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+export interface GroupKey {
+  column: string;
+  granularity?: DateGranularity; // Date columns only: group by the start of the period
+}
+
+export interface PivotMeasure {
+  column: string;
+  aggregation: Aggregation;
+}
+
+export interface PivotConfig {
+  rowGroups: GroupKey[];
+  columnPivot: GroupKey | null; // Each of its values becomes a column per measure
+  measures: PivotMeasure[];
+}
+
+export interface PivotResult {
+  groupColumns: string[];
+  valueColumns: string[];
+  rows: DataRow[];
+  totals: DataRow; // Aggregated over every source row, not summed from the groups (averages don't add up)
+  measureOf: Record<string, PivotMeasure>; // Which measure each value column shows, for formatting
+}
+
+const EMPTY_LABEL = '(empty)';
+const TOTAL_LABEL = 'Total';
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+const toNumber = (value: unknown): number | undefined => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Start of the period holding a date, as YYYY-MM-DD so the groups still read (and chart) as dates
+export const periodStart = (value: unknown, granularity: DateGranularity): string | undefined => {
+  const time = typeof value === 'string' || typeof value === 'number' ? Date.parse(String(value).slice(0, 10)) : NaN;
+  if (Number.isNaN(time)) return undefined;
+  const date = new Date(time);
+  switch (granularity) {
+    case 'week':
+      // Weeks start on Monday (ISO 8601)
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+      break;
+    case 'month':
+      date.setUTCDate(1);
+      break;
+    case 'quarter':
+      date.setUTCMonth(date.getUTCMonth() - (date.getUTCMonth() % 3), 1);
+      break;
+    case 'year':
+      date.setUTCMonth(0, 1);
+      break;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+const groupValue = (row: DataRow, key: GroupKey): unknown => {
+  const value = row[key.column];
+  if (key.granularity) return periodStart(value, key.granularity) ?? value;
+  return value;
+};
+
+export const groupColumnName = (key: GroupKey) => key.granularity ? `${key.column} (${key.granularity})` : key.column;
+
+export const measureLabel = (measure: PivotMeasure) =>
+  measure.aggregation === 'distinct' ? `distinct(${measure.column})` : `${measure.aggregation}(${measure.column})`;
+
+export function aggregate(values: unknown[], aggregation: Aggregation): unknown {
+  const present = values.filter(value => !isBlank(value));
+  if (aggregation === 'count') return present.length;
+  if (aggregation === 'distinct') return new Set(present.map(cellText)).size;
+  const numbers = present.map(toNumber).filter((number): number is number => number !== undefined);
+  if (aggregation === 'min' || aggregation === 'max') {
+    // Dates and labels have a min and max too
+    if (numbers.length === 0) {
+      const texts = present.map(cellText).sort();
+      return texts.length === 0 ? null : aggregation === 'min' ? texts[0] : texts[texts.length - 1];
+    }
+    return numbers.reduce((best, number) => aggregation === 'min' ? Math.min(best, number) : Math.max(best, number));
+  }
+  if (numbers.length === 0) return null;
+  const sum = numbers.reduce((total, number) => total + number, 0);
+  return aggregation === 'sum' ? sum : sum / numbers.length;
+}
+
+const compareGroupValues = (a: unknown, b: unknown) =>
+  typeof a === 'number' && typeof b === 'number' ? a - b : cellText(a).localeCompare(cellText(b), undefined, { numeric: true });
+
+/**
+ * Groups rows by the row groups and aggregates each measure, spreading the measures across
+ * the column pivot's values when there is one. Groups are sorted by their values.
+ */
+export function pivotRows(rows: DataRow[], config: PivotConfig): PivotResult {
+  const { rowGroups, columnPivot, measures } = config;
+  const groupColumns = rowGroups.map(groupColumnName);
+
+  // Pivot values (e.g. each platform), in order, and the value columns they produce
+  const pivotValues = columnPivot
+    ? [...new Map(rows.map(row => [cellText(groupValue(row, columnPivot)), groupValue(row, columnPivot)])).entries()]
+      .sort(([, a], [, b]) => compareGroupValues(a, b))
+      .map(([key]) => key)
+    : [];
+  const measureOf: Record<string, PivotMeasure> = {};
+  // Column names key the pivoted rows, so the same measure twice (or a pivot value that reads
+  // like another column) gets a numbered suffix instead of overwriting the first
+  const usedColumns = new Set(groupColumns);
+  const uniqueColumn = (name: string) => {
+    let unique = name;
+    for (let n = 2; usedColumns.has(unique); n++) unique = `${name} (${n})`;
+    usedColumns.add(unique);
+    return unique;
+  };
+  const valueColumnsFor = (pivotValue: string | null) => measures.map(measure => {
+    const label = uniqueColumn(pivotValue === null ? measureLabel(measure) : measures.length === 1 ? pivotValue || EMPTY_LABEL : `${pivotValue || EMPTY_LABEL} · ${measureLabel(measure)}`);
+    measureOf[label] = measure;
+    return { label, measure, pivotValue };
+  });
+  const valueColumns = columnPivot ? pivotValues.flatMap(valueColumnsFor) : valueColumnsFor(null);
+
+  const aggregateRows = (groupRows: DataRow[]): DataRow => Object.fromEntries(valueColumns.map(({ label, measure, pivotValue }) => {
+    const matching = pivotValue === null || !columnPivot ? groupRows : groupRows.filter(row => cellText(groupValue(row, columnPivot)) === pivotValue);
+    return [label, aggregate(matching.map(row => row[measure.column]), measure.aggregation)];
+  }));
+
+  // Bucket rows by the combination of their group values
+  const groups = new Map<string, { values: unknown[]; rows: DataRow[] }>();
+  for (const row of rows) {
+    const values = rowGroups.map(key => groupValue(row, key));
+    const groupKey = JSON.stringify(values.map(cellText));
+    const group = groups.get(groupKey) ?? { values, rows: [] };
+    group.rows.push(row);
+    groups.set(groupKey, group);
+  }
+
+  const groupedRows = [...groups.values()]
+    .sort((a, b) => {
+      for (let i = 0; i < a.values.length; i++) {
+        const order = compareGroupValues(a.values[i], b.values[i]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    })
+    .map(group => ({
+      ...Object.fromEntries(groupColumns.map((column, i) => [column, isBlank(group.values[i]) ? EMPTY_LABEL : group.values[i]])),
+      ...aggregateRows(group.rows),
+    }));
+
+  const totals = {
+    ...Object.fromEntries(groupColumns.map((column, i) => [column, i === 0 ? TOTAL_LABEL : ''])),
+    ...aggregateRows(rows),
+  };
+
+  return {
+    groupColumns,
+    valueColumns: valueColumns.map(({ label }) => label),
+    rows: groupedRows,
+    totals,
+    measureOf,
+  };
+}
+
+// A pivot charted in the Graph Viewer: one series per value column, over the first row group
+export interface PivotChart {
+  title: string;
+  rows: DataRow[];
+  type: 'bar' | 'line';
+  x: string;
+  y: string[];
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiErrorEnvelope } from '@/lib/apiErrors';
+import { getSessionUser } from '@/lib/auth/session';
+
+// Everything except the login page, the auth API and static assets requires a session
+export async function middleware(request: NextRequest) {
+  const user = await getSessionUser(request);
+  if (user) return NextResponse.next();
+
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json<ApiErrorEnvelope>(
+      { error: { code: 'unauthorized', message: 'Your session has expired. Please sign in again.', retryable: false } },
+      { status: 401 }
+    );
+  }
+  const loginUrl = new URL('/login', request.url);
+  loginUrl.searchParams.set('next', request.nextUrl.pathname);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/((?!login|api/auth|_next/static|_next/image|favicon.ico).*)'],
+};